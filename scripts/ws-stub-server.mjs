@@ -0,0 +1,159 @@
+// Local stand-in for the backend's real-time endpoint, for developing and testing the
+// WebSocket client without the real server. Uses only Node built-ins.
+//
+//   npm run ws:stub                      # listens on ws://localhost:8000/ws
+//   PORT=8001 npm run ws:stub
+//   STUB_TOKEN=secret npm run ws:stub    # reject any other token with auth.error
+//   npm run ws:stub -- --drop-pongs      # never answer pings (exercises the heartbeat timeout)
+//
+// Each line typed into the terminal is sent to every authenticated client, e.g.
+//   {"type":"document.status","payload":{"document_id":"abc","status":"ready"}}
+// and `close` drops all connections (exercises reconnect with backoff).
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createInterface } from 'node:readline';
+
+const PORT = Number(process.env.PORT || 8000);
+const STUB_TOKEN = process.env.STUB_TOKEN;
+const DROP_PONGS = process.argv.includes('--drop-pongs');
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const clients = new Set();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+        const size = Buffer.alloc(8);
+        size.writeBigUInt64BE(BigInt(length));
+        return size;
+      })()]);
+  return Buffer.concat([header, payload]);
+};
+
+const sendJson = (client, message) => {
+  client.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+};
+
+// Pulls complete frames off the front of `buffer`; returns the frames and the unread rest
+const decodeFrames = (buffer) => {
+  const frames = [];
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    frames.push({ opcode, payload });
+    buffer = buffer.subarray(offset + length);
+  }
+  return { frames, rest: buffer };
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    console.log(`[${client.id}] ignoring non-JSON message`);
+    return;
+  }
+
+  if (message.type === 'auth') {
+    if (!message.token || (STUB_TOKEN && message.token !== STUB_TOKEN)) {
+      console.log(`[${client.id}] auth rejected`);
+      sendJson(client, { type: 'auth.error', payload: { message: 'Invalid token' } });
+      return;
+    }
+    client.authenticated = true;
+    console.log(`[${client.id}] authenticated`);
+    sendJson(client, { type: 'auth.ok' });
+  } else if (message.type === 'ping') {
+    if (!DROP_PONGS) sendJson(client, { type: 'pong' });
+  } else {
+    console.log(`[${client.id}] received`, message);
+  }
+};
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket endpoint only\n');
+});
+
+let nextId = 1;
+server.on('upgrade', (req, socket) => {
+  if (new URL(req.url, 'http://localhost').pathname !== '/ws' || !req.headers['sec-websocket-key']) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  const client = { id: nextId++, socket, authenticated: false };
+  clients.add(client);
+  console.log(`[${client.id}] connected`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x1) handleMessage(client, payload.toString('utf8'));
+      else if (opcode === 0x8) socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+      else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+    }
+  });
+  socket.on('close', () => {
+    clients.delete(client);
+    console.log(`[${client.id}] disconnected`);
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`WebSocket stub listening on ws://localhost:${PORT}/ws${DROP_PONGS ? ' (dropping pongs)' : ''}`);
+});
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const input = line.trim();
+  if (!input) return;
+  if (input === 'close') {
+    clients.forEach(client => client.socket.destroy());
+    return;
+  }
+  try {
+    const message = JSON.parse(input);
+    const targets = [...clients].filter(client => client.authenticated);
+    targets.forEach(client => sendJson(client, message));
+    console.log(`sent to ${targets.length} client(s)`);
+  } catch {
+    console.log('Type a JSON event, or `close` to drop every connection');
+  }
+});
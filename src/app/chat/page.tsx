@@ -1,15 +1,44 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useWorkspace } from '../../contexts/WorkspaceContext';
 import { useRouter } from 'next/navigation';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import Sidebar from '../../components/Sidebar';
 import ChatInterface from '../../components/ChatInterface';
 import DocumentUpload from '../../components/DocumentUpload';
-import { Message, Document, Chat, Source, chatAPI, documentAPI, ragAPI, setAuthTokenGetter } from '../../services/api';
+import WebSocketStatus from '../../components/WebSocketStatus';
+import RenameInput from '../../components/RenameInput';
+import DocumentScopeChips from '../../components/DocumentScopeChips';
+import ExportMenu from '../../components/ExportMenu';
+import ShareDialog from '../../components/ShareDialog';
+import RetrievalSettingsMenu from '../../components/RetrievalSettingsMenu';
+import { addVariant, selectVariant } from '../../utils/messageVariants';
+import { buildHistory, HISTORY_WINDOW } from '../../utils/conversationHistory';
+import { LLM_TITLES_ENABLED, normalizeTitle, truncateTitle } from '../../utils/sessionTitles';
+import { DEFAULT_RETRIEVAL_SETTINGS, isDefaultRetrievalSettings, normalizeRetrievalSettings, toRetrievalOptions } from '../../utils/retrievalSettings';
+import { useIngestionStatus } from '../../hooks/useIngestionStatus';
+import { useLiveSync } from '../../hooks/useLiveSync';
+import { useChatOrganization } from '../../hooks/useChatOrganization';
+import { publishSync } from '../../services/syncChannel';
+
+// pdf.js needs browser globals, so the viewer is only loaded client-side
+const SourceViewer = dynamic(() => import('../../components/SourceViewer'), { ssr: false });
+import { Message, MessageFeedback, Document, Chat, Source, RetrievalSettings, chatAPI, feedbackAPI, documentAPI, SESSION_PAGE_SIZE, MESSAGE_PAGE_SIZE, ragAPI, setAuthTokenGetter, isAbortError } from '../../services/api';
+
+// A streamed answer, complete or cut short by the user
+interface GeneratedAnswer {
+  content: string;
+  sources: Source[];
+  stopped: boolean;
+  model_used?: string;
+}
 
 export default function ChatPage() {
   const { user, signOut, getToken } = useAuth();
+  const { canEditDocuments } = useWorkspace();
   const router = useRouter();
 
   useEffect(() => {
@@ -36,31 +65,179 @@ export default function ChatPage() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState<string>('');
+  const [streamingSources, setStreamingSources] = useState<Source[]>([]);
   const [showDocumentUpload, setShowDocumentUpload] = useState(false);
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
-  const [selectedDocuments, setSelectedDocuments] = useState<Document[]>([]);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  // Document scope of the open chat. Ids, so status changes to the documents show through.
+  const [selectedDocumentIds, setSelectedDocumentIds] = useState<string[]>([]);
+  // Retrieval settings of the open chat; like the scope, a new chat starts with the current ones
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(DEFAULT_RETRIEVAL_SETTINGS);
+  const [viewerSource, setViewerSource] = useState<Source | null>(null);
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const [chatsCursor, setChatsCursor] = useState<string | null>(null);
+  const [loadingMoreChats, setLoadingMoreChats] = useState(false);
+  const [olderMessagesCursor, setOlderMessagesCursor] = useState<string | null>(null);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [editingTitle, setEditingTitle] = useState(false);
+
+  // ── in-flight requests that the user (or navigation) can cancel ────────────
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const sessionLoadAbortRef = useRef<AbortController | null>(null);
+  // Sessions the user renamed by hand; a generated title arriving later leaves them alone
+  const userTitledChatsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    return () => {
+      generationAbortRef.current?.abort();
+      sessionLoadAbortRef.current?.abort();
+    };
+  }, []);
+
+  const { organization, loadOrganization } = useChatOrganization(setChats);
 
   // ── load sidebar data once on mount ────────────────────────────────────────
-  const loadSidebarData = useCallback(async () => {
+  const loadSidebarData = useCallback(async (signal?: AbortSignal) => {
     try {
       const [chatsResult, docsResult] = await Promise.allSettled([
-        chatAPI.getSessions(),
-        documentAPI.listDocuments(),
+        chatAPI.getSessionsPage(null, SESSION_PAGE_SIZE, signal),
+        documentAPI.listDocuments(signal),
+        loadOrganization(signal),
       ]);
-      setChats(chatsResult.status === 'fulfilled' ? chatsResult.value : []);
+      if (signal?.aborted) return;
+      setChats(chatsResult.status === 'fulfilled' ? chatsResult.value.sessions : []);
+      setChatsCursor(chatsResult.status === 'fulfilled' ? chatsResult.value.nextCursor : null);
       setDocuments(docsResult.status === 'fulfilled' ? docsResult.value : []);
     } catch (e) {
       console.error('Failed to load sidebar data:', e);
     } finally {
-      setSidebarLoading(false);
+      if (!signal?.aborted) setSidebarLoading(false);
     }
-  }, []);
+  }, [loadOrganization]);
 
   useEffect(() => {
-    const t = setTimeout(loadSidebarData, 100);
-    return () => clearTimeout(t);
+    // Aborted when the page unmounts so navigation doesn't leave loads running
+    const controller = new AbortController();
+    const t = setTimeout(() => loadSidebarData(controller.signal), 100);
+    return () => {
+      clearTimeout(t);
+      controller.abort();
+    };
   }, [loadSidebarData]);
 
+  // ── pagination ──────────────────────────────────────────────────────────────
+  // Refs guard against the scroll handlers firing again before state catches up
+  const loadingMoreChatsRef = useRef(false);
+  const loadingOlderRef = useRef(false);
+  const selectedChatIdRef = useRef(selectedChatId);
+  selectedChatIdRef.current = selectedChatId;
+
+  const loadMoreChats = useCallback(async () => {
+    if (!chatsCursor || loadingMoreChatsRef.current) return;
+    loadingMoreChatsRef.current = true;
+    setLoadingMoreChats(true);
+    try {
+      const { sessions, nextCursor } = await chatAPI.getSessionsPage(chatsCursor);
+      // Sessions created or synced in the meantime may already be in the list
+      setChats(prev => {
+        const known = new Set(prev.map(c => c.session_id));
+        return [...prev, ...sessions.filter(c => !known.has(c.session_id))];
+      });
+      setChatsCursor(nextCursor);
+    } catch (error) {
+      console.error('Error loading more chats:', error);
+    } finally {
+      loadingMoreChatsRef.current = false;
+      setLoadingMoreChats(false);
+    }
+  }, [chatsCursor]);
+
+  const loadOlderMessages = useCallback(async () => {
+    const chatId = selectedChatIdRef.current;
+    if (!chatId || !olderMessagesCursor || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    setLoadingOlderMessages(true);
+    try {
+      const page = await chatAPI.getMessagesPage(chatId, olderMessagesCursor, MESSAGE_PAGE_SIZE, sessionLoadAbortRef.current?.signal);
+      // The user may have switched chats while the page was loading
+      if (selectedChatIdRef.current !== chatId) return;
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...page.messages.filter(m => m && m.id && !known.has(m.id)), ...prev];
+      });
+      setOlderMessagesCursor(page.olderCursor);
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Error loading older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlderMessages(false);
+    }
+  }, [olderMessagesCursor]);
+
+  // A search hit can point at a message older than the loaded pages: keep paging
+  // back until it shows up or the start of the conversation is reached
+  useEffect(() => {
+    if (!jumpToMessageId || loadingOlderMessages || !olderMessagesCursor) return;
+    if (messages.some(m => m.id === jumpToMessageId)) return;
+    loadOlderMessages();
+  }, [jumpToMessageId, messages, olderMessagesCursor, loadingOlderMessages, loadOlderMessages]);
+
+  // ── track documents the server is still ingesting ──────────────────────────
+  useIngestionStatus(documents, (fileId, { status, error }) => {
+    setDocuments(prev => prev.map(doc =>
+      doc.file_id === fileId && doc.status !== status ? { ...doc, status, status_error: error } : doc
+    ));
+  });
+
+  // ── apply changes made in other tabs and on other devices ──────────────────
+  useLiveSync({
+    'session.created': ({ session }) => {
+      setChats(prev => prev.some(c => c.session_id === session.session_id) ? prev : [session, ...prev]);
+    },
+    'session.updated': ({ session }) => {
+      setChats(prev => prev.map(c => c.session_id === session.session_id ? { ...c, ...session } : c));
+      if (session.session_id === selectedChatId) setCurrentChatTitle(session.title || '');
+    },
+    'session.documents': ({ session_id, document_ids }) => {
+      if (session_id === selectedChatId) setSelectedDocumentIds(document_ids);
+    },
+    'session.settings': ({ session_id, retrieval_settings }) => {
+      if (session_id === selectedChatId) setRetrievalSettings(normalizeRetrievalSettings(retrieval_settings));
+    },
+    'session.deleted': ({ session_id }) => {
+      setChats(prev => prev.filter(c => c.session_id !== session_id));
+      if (session_id === selectedChatId) {
+        generationAbortRef.current?.abort();
+        setSelectedChatId(null);
+        setMessages([]);
+        setOlderMessagesCursor(null);
+        setCurrentChatTitle('');
+        setViewerSource(null);
+      }
+    },
+    'message.created': ({ session_id, message }) => {
+      if (session_id !== selectedChatId) return;
+      setMessages(prev => {
+        if (prev.some(m => m.id === message.id)) return prev;
+        // Our own message echoed back before its save returned: adopt the server id
+        const recent = prev.slice(-3);
+        const local = recent.find(m => m.role === message.role && m.content === message.content);
+        if (local) return prev.map(m => m === local ? { ...m, id: message.id } : m);
+        return [...prev, message];
+      });
+    },
+    'document.created': ({ document }) => {
+      setDocuments(prev => prev.some(d => d.file_id === document.file_id) ? prev : [document, ...prev]);
+    },
+    'document.updated': ({ document }) => {
+      setDocuments(prev => prev.map(d => d.file_id === document.file_id ? document : d));
+    },
+    'document.deleted': ({ document_id }) => {
+      setDocuments(prev => prev.filter(d => d.file_id !== document_id));
+      setSelectedDocumentIds(prev => prev.filter(id => id !== document_id));
+    },
+  });
+
   useEffect(() => {
     if (!user) router.push('/');
   }, [user, router]);
@@ -76,40 +253,71 @@ export default function ChatPage() {
     );
   }
 
+  // Ids with no loaded document (e.g. deleted in another tab) drop out here
+  const selectedDocuments = documents.filter(doc => selectedDocumentIds.includes(doc.file_id));
+  const scopeDocumentIds = selectedDocuments.map(doc => doc.file_id);
+
   // ── handlers ────────────────────────────────────────────────────────────────
 
+  // Leaving a chat stops its answer; what was generated so far is still saved to it
+  const stopGenerationForSwitch = (chatId: string | null) => {
+    generationAbortRef.current?.abort();
+    selectedChatIdRef.current = chatId;
+  };
+
   const handleNewChat = async () => {
+    generationAbortRef.current?.abort();
     try {
       const newChat = await chatAPI.createSession();
       setChats(prev => [newChat, ...prev]);
+      publishSync('session.created', { session: newChat });
+      stopGenerationForSwitch(newChat.session_id);
       setSelectedChatId(newChat.session_id);
       setCurrentChatTitle('');
       setMessages([]);
+      setOlderMessagesCursor(null);
+      setViewerSource(null);
+      // A new chat starts with the documents currently in scope
+      if (scopeDocumentIds.length > 0) saveDocumentScope(newChat.session_id, scopeDocumentIds);
+      if (!isDefaultRetrievalSettings(retrievalSettings)) saveRetrievalSettings(newChat.session_id, retrievalSettings);
     } catch (error) {
       console.error('Error creating new chat:', error);
     }
   };
 
+  // Opens the session a search hit belongs to and scrolls to the matching message
+  const handleSearchResultSelect = (sessionId: string, messageId: string) => {
+    setJumpToMessageId(messageId);
+    setShowDocumentUpload(false);
+    setShowMobileSidebar(false);
+    if (sessionId !== selectedChatId) handleChatSelect(sessionId);
+  };
+
   const handleChatSelect = async (chatId: string) => {
+    // Switching chats cancels a load that is still pending for the previous one
+    sessionLoadAbortRef.current?.abort();
+    const controller = new AbortController();
+    sessionLoadAbortRef.current = controller;
+    stopGenerationForSwitch(chatId);
+
     try {
       setSelectedChatId(chatId);
-      const { session, messages: chatMessages } = await chatAPI.getSession(chatId);
+      setViewerSource(null);
+      // Cleared up front so the previous chat's cursor is never used for this one
+      setOlderMessagesCursor(null);
+      const { session, messages: chatMessages, olderCursor } = await chatAPI.getSession(chatId, controller.signal);
       setCurrentChatTitle(session.title || '');
 
-      if (session.document_ids && session.document_ids.length > 0) {
-        const sessionDocuments = documents.filter(doc =>
-          session.document_ids?.includes(doc.file_id)
-        );
-        setSelectedDocuments(sessionDocuments);
-      } else {
-        setSelectedDocuments([]);
-      }
+      setSelectedDocumentIds(session.document_ids || []);
+      setRetrievalSettings(normalizeRetrievalSettings(session.retrieval_settings));
 
       const validMessages = Array.isArray(chatMessages)
         ? chatMessages.filter(msg => msg && msg.id && msg.content !== undefined)
         : [];
       setMessages(validMessages);
+      setOlderMessagesCursor(olderCursor);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error loading chat:', error);
       setMessages([]);
       setCurrentChatTitle('');
@@ -118,30 +326,161 @@ export default function ChatPage() {
 
   const handleDeleteChat = (sessionId: string) => {
     setChats(prev => prev.filter(c => c.session_id !== sessionId));
+    publishSync('session.deleted', { session_id: sessionId });
     if (selectedChatId === sessionId) {
+      stopGenerationForSwitch(null);
       setSelectedChatId(null);
       setMessages([]);
+      setOlderMessagesCursor(null);
       setCurrentChatTitle('');
     }
   };
 
   const handleDeleteDocument = (fileId: string) => {
     setDocuments(prev => prev.filter(d => d.file_id !== fileId));
-    setSelectedDocuments(prev => prev.filter(d => d.file_id !== fileId));
+    setSelectedDocumentIds(prev => prev.filter(id => id !== fileId));
+    publishSync('document.deleted', { document_id: fileId });
+  };
+
+  const handleDocumentUpdate = (updated: Document) => {
+    setDocuments(prev => prev.map(d => d.file_id === updated.file_id ? updated : d));
+    publishSync('document.updated', { document: updated });
+  };
+
+  const finishStreaming = () => {
+    setIsLoading(false);
+    setStreamingContent('');
+    setStreamingSources([]);
+  };
+
+  // Streams an answer for `query` into the in-progress bubble, sending a bounded
+  // window of `priorMessages` so follow-up questions keep their context. Resolves
+  // with the complete answer, or the partial one when the user stops it; rejects
+  // on errors. The caller calls finishStreaming once it has handled the result.
+  // Callers with work to do before streaming pass a controller they registered
+  // earlier, so Stop already works during that work.
+  const streamAnswer = async (
+    query: string,
+    priorMessages: Message[],
+    controller: AbortController = new AbortController(),
+  ): Promise<GeneratedAnswer> => {
+    generationAbortRef.current = controller;
+    setIsLoading(true);
+    setStreamingContent('');
+    setStreamingSources([]);
+
+    let answer = '';
+    let answerSources: Source[] = [];
+    let streamError: string | null = null;
+    let finished = false;
+    let modelUsed: string | undefined;
+
+    try {
+      await ragAPI.searchLLMStream(
+        query,
+        scopeDocumentIds,
+        retrievalSettings.top_k,
+        (token) => {
+          answer += token;
+          setStreamingContent(answer);
+        },
+        (sources) => {
+          answerSources = sources;
+          setStreamingSources(sources);
+        },
+        (model) => {
+          finished = true;
+          modelUsed = model;
+        },
+        (msg) => { streamError = msg; },
+        {
+          signal: controller.signal,
+          history: buildHistory(priorMessages),
+          condenseQuery: HISTORY_WINDOW.condenseQuery,
+          retrieval: toRetrievalOptions(retrievalSettings),
+        },
+      );
+
+      if (streamError || !finished) {
+        throw new Error(streamError || 'Stream ended before the answer was complete');
+      }
+      return { content: answer, sources: answerSources, stopped: false, model_used: modelUsed };
+    } catch (error) {
+      // Stopped by the user — keep whatever was generated so far
+      if (isAbortError(error)) return { content: answer, sources: answerSources, stopped: true, model_used: modelUsed };
+      throw error;
+    } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+    }
+  };
+
+  // Shows a finished (or stopped) answer and persists it in the background,
+  // swapping in the server id once it is known. An answer for a chat the user has
+  // since left is only saved.
+  const appendAnswer = (chatId: string, answer: GeneratedAnswer) => {
+    const localId = (Date.now() + 1).toString();
+    const isOpen = selectedChatIdRef.current === chatId;
+    if (isOpen) setMessages(prev => [...prev, {
+      id: localId,
+      content: answer.content,
+      role: 'assistant',
+      timestamp: new Date().toISOString(),
+      sources: answer.sources,
+      ...(answer.stopped ? { stopped: true } : {}),
+      ...(answer.model_used ? { model_used: answer.model_used } : {}),
+    }]);
+    finishStreaming();
+
+    chatAPI
+      .saveMessage(chatId, answer.content, 'assistant', answer.sources, { stopped: answer.stopped, modelUsed: answer.model_used })
+      .then(saved => {
+        if (isOpen) setMessages(prev => prev.map(m => m.id === localId ? { ...m, id: saved.id } : m));
+        publishSync('message.created', { session_id: chatId, message: saved });
+      })
+      .catch(e => console.error('Failed to save assistant message:', e));
+  };
+
+  const appendErrorMessage = (chatId: string) => {
+    if (selectedChatIdRef.current === chatId) setMessages(prev => [...prev, {
+      id: (Date.now() + 1).toString(),
+      content: 'Sorry, I encountered an error. Please try again.',
+      role: 'assistant',
+      timestamp: new Date().toISOString(),
+    }]);
+    finishStreaming();
   };
 
   const handleSendMessage = async (messageContent: string) => {
     let currentChatId = selectedChatId;
+    let createdChat: Chat | null = null;
+    // Registered up front so Stop also works while the session and question are saved
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setIsLoading(true);
+    const stoppedBeforeStreaming = () => {
+      if (!controller.signal.aborted) return false;
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+      finishStreaming();
+      return true;
+    };
 
     if (!currentChatId) {
       try {
         const newChat = await chatAPI.createSession();
         setChats(prev => [newChat, ...prev]);
+        publishSync('session.created', { session: newChat });
+        // Stopped, or left for another chat, before the question went out
+        if (stoppedBeforeStreaming()) return;
+        createdChat = newChat;
         currentChatId = newChat.session_id;
         setSelectedChatId(currentChatId);
         setMessages([]);
+        if (scopeDocumentIds.length > 0) saveDocumentScope(currentChatId, scopeDocumentIds);
+        if (!isDefaultRetrievalSettings(retrievalSettings)) saveRetrievalSettings(currentChatId, retrievalSettings);
       } catch (error) {
         console.error('Error creating new chat:', error);
+        if (generationAbortRef.current === controller) generationAbortRef.current = null;
+        finishStreaming();
         return;
       }
     }
@@ -153,80 +492,240 @@ export default function ChatPage() {
       timestamp: new Date().toISOString(),
     };
     setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
-    setStreamingContent('');
+
+    // A freshly created session has no history, whatever is still in state
+    const priorMessages = currentChatId === selectedChatId ? messages : [];
+    const isFirstMessage = priorMessages.length === 0;
 
     try {
-      const selectedDocumentIds = selectedDocuments.map(doc => doc.file_id);
-      const result = await chatAPI.sendMessage(currentChatId, messageContent, selectedDocumentIds);
+      const savedUser = await chatAPI.saveMessage(currentChatId, messageContent, 'user');
+      setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, id: savedUser.id } : m));
+      publishSync('message.created', { session_id: currentChatId, message: savedUser });
+      if (stoppedBeforeStreaming()) return;
+
+      const answer = await streamAnswer(messageContent, priorMessages, controller);
+      if (!answer.content) {
+        finishStreaming();
+        return;
+      }
+      appendAnswer(currentChatId, answer);
 
-      const isFirstMessage = messages.length === 0;
-      if (isFirstMessage && result.ragResponse) {
+      if (isFirstMessage && !answer.stopped) {
+        const renamed = createdChat || chats.find(c => c.session_id === currentChatId);
         try {
-          const title = generateTitleFromMessage(messageContent);
-          await chatAPI.updateSessionTitle(currentChatId, title);
-          setCurrentChatTitle(title);
-          setChats(prev =>
-            prev.map(c => c.session_id === currentChatId ? { ...c, title } : c)
-          );
+          await saveChatTitle(currentChatId, truncateTitle(messageContent), renamed);
         } catch (e) {
           console.error('Failed to update session title:', e);
         }
-      }
-
-      if (result.ragResponse) {
-        const ragResponse = result.ragResponse as { response: string; sources?: Source[] };
-        setMessages(prev => [...prev, {
-          id: (Date.now() + 1).toString(),
-          content: ragResponse.response,
-          role: 'assistant',
-          timestamp: new Date().toISOString(),
-          sources: ragResponse.sources || [],
-        }]);
-      } else if (result.aiMessage) {
-        setMessages(prev => [...prev, {
-          id: (Date.now() + 1).toString(),
-          content: result.aiMessage.content,
-          role: 'assistant',
-          timestamp: new Date().toISOString(),
-          sources: result.aiMessage.sources || [],
-        }]);
+        // Not awaited: the truncated title shows until the generated one arrives
+        if (LLM_TITLES_ENABLED) generateChatTitle(currentChatId, messageContent, answer.content, renamed);
       }
     } catch (error) {
       console.error('Error in chat flow:', error);
-      setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
-        content: 'Sorry, I encountered an error. Please try again.',
-        role: 'assistant',
+      appendErrorMessage(currentChatId);
+    }
+  };
+
+  // Re-runs retrieval for the question behind an assistant message and keeps the
+  // previous reply as a switchable variant.
+  const handleRegenerate = async (messageId: string) => {
+    if (!selectedChatId || isLoading) return;
+    const chatId = selectedChatId;
+    const index = messages.findIndex(m => m.id === messageId);
+    const target = messages[index];
+    const questionIndex = messages.slice(0, index).map(m => m.role).lastIndexOf('user');
+    const question = messages[questionIndex];
+    if (!target || !question) return;
+
+    // Hide the old reply while the new one streams in its place
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+    // Puts a reply back, unless the user has moved to another chat meanwhile
+    const showReply = (reply: Message) => {
+      if (selectedChatIdRef.current === chatId) setMessages(prev => [...prev, reply]);
+    };
+
+    try {
+      const answer = await streamAnswer(question.content, messages.slice(0, questionIndex));
+      if (!answer.content) {
+        showReply(target);
+        finishStreaming();
+        return;
+      }
+
+      const updated = addVariant(target, {
+        content: answer.content,
+        sources: answer.sources,
         timestamp: new Date().toISOString(),
-      }]);
-    } finally {
-      setIsLoading(false);
+        ...(answer.stopped ? { stopped: true } : {}),
+        ...(answer.model_used ? { model_used: answer.model_used } : {}),
+      });
+      showReply(updated);
+      finishStreaming();
+
+      chatAPI.updateMessage(chatId, updated).catch(e => console.error('Failed to save regenerated message:', e));
+    } catch (error) {
+      console.error('Error regenerating answer:', error);
+      showReply(target);
+      finishStreaming();
+    }
+  };
+
+  // Replaces a user message, drops everything after it and asks again. The old
+  // text and the replies it got are kept as a variant of the user message.
+  const handleEditMessage = async (messageId: string, newContent: string) => {
+    if (!selectedChatId || isLoading) return;
+    const chatId = selectedChatId;
+    const index = messages.findIndex(m => m.id === messageId);
+    const target = messages[index];
+    if (!target || target.role !== 'user' || !newContent.trim()) return;
+
+    const edited = addVariant(
+      target,
+      { content: newContent.trim(), timestamp: new Date().toISOString() },
+      messages.slice(index + 1),
+    );
+    setMessages([...messages.slice(0, index), edited]);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setIsLoading(true);
+
+    try {
+      await chatAPI.deleteMessagesAfter(chatId, messageId);
+      await chatAPI.updateMessage(chatId, edited);
+
+      // Stopped while saving: the stream gives up straight away with an empty answer
+      const answer = await streamAnswer(edited.content, messages.slice(0, index), controller);
+      if (!answer.content) {
+        finishStreaming();
+        return;
+      }
+      appendAnswer(chatId, answer);
+    } catch (error) {
+      console.error('Error resending edited message:', error);
+      appendErrorMessage(chatId);
     }
   };
-  const generateTitleFromMessage = (message: string): string => {
-    const clean = message.trim();
-    if (clean.length <= 50) return clean;
-    const words = clean.split(' ');
-    let title = '';
-    for (const word of words) {
-      if ((title + ' ' + word).length > 40) break;
-      title += (title ? ' ' : '') + word;
+
+  // Shows another version of a message. For user messages this also swaps in the
+  // conversation branch that belonged to that version.
+  const handleSelectVariant = async (messageId: string, variantIndex: number) => {
+    if (!selectedChatId || isLoading) return;
+    const chatId = selectedChatId;
+    const index = messages.findIndex(m => m.id === messageId);
+    const target = messages[index];
+    if (!target) return;
+
+    if (target.role === 'assistant') {
+      const { message: switched } = selectVariant(target, variantIndex);
+      setMessages(prev => prev.map(m => m.id === messageId ? switched : m));
+      chatAPI.updateMessage(chatId, switched).catch(e => console.error('Failed to save variant choice:', e));
+      return;
+    }
+
+    const { message: switched, replies } = selectVariant(target, variantIndex, messages.slice(index + 1));
+    setMessages([...messages.slice(0, index), switched, ...replies]);
+
+    try {
+      await chatAPI.deleteMessagesAfter(chatId, messageId);
+      await chatAPI.updateMessage(chatId, switched);
+      // Saved whole, so a reply keeps its own regenerated versions and rating
+      for (const reply of replies) {
+        const saved = await chatAPI.saveMessage(chatId, reply.content, reply.role, reply.sources, {
+          stopped: reply.stopped,
+          modelUsed: reply.model_used,
+          variants: reply.variants,
+          variantIndex: reply.variantIndex,
+          feedback: reply.feedback,
+        });
+        setMessages(prev => prev.map(m => m.id === reply.id ? { ...m, id: saved.id } : m));
+      }
+    } catch (error) {
+      console.error('Failed to save conversation branch:', error);
     }
-    return (title.length < clean.length ? title + '...' : title) || 'New Chat';
   };
 
-  const handleDocumentUpload = async (file: File) => {
+  // Rates an answer. Shown right away and undone if saving fails; the question and
+  // sources go along so the rating can be reviewed on its own.
+  const handleFeedback = async (messageId: string, feedback: MessageFeedback | null) => {
+    if (!selectedChatId) return;
+    const chatId = selectedChatId;
+    const index = messages.findIndex(m => m.id === messageId);
+    const target = messages[index];
+    if (!target) return;
+    const question = messages.slice(0, index).reverse().find(m => m.role === 'user');
+
+    const setFeedback = (value?: MessageFeedback) =>
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, feedback: value } : m));
+    setFeedback(feedback ?? undefined);
+
     try {
-      const uploaded = await documentAPI.uploadPDF(file);
-      setDocuments(prev => [uploaded, ...prev]);
+      if (feedback) {
+        await feedbackAPI.submitFeedback(chatId, messageId, {
+          ...feedback,
+          query: question?.content || '',
+          answer: target.content,
+          sources: target.sources || [],
+          model_used: target.model_used,
+        });
+      } else {
+        await feedbackAPI.clearFeedback(chatId, messageId);
+      }
     } catch (error) {
-      console.error('Error uploading document:', error);
+      console.error('Failed to save feedback:', error);
+      setFeedback(target.feedback);
     }
   };
 
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // ── titles ──────────────────────────────────────────────────────────────────
+
+  // Saves a session title and mirrors it in the sidebar, the header and other tabs.
+  // `chat` is the session as last known, used for the sync payload.
+  const saveChatTitle = async (chatId: string, title: string, chat?: Chat) => {
+    await chatAPI.updateSessionTitle(chatId, title);
+    setChats(prev => prev.map(c => c.session_id === chatId ? { ...c, title } : c));
+    if (selectedChatIdRef.current === chatId) setCurrentChatTitle(title);
+    if (chat) publishSync('session.updated', { session: { ...chat, title } });
+  };
+
+  // Replaces the truncated first-question title with one the LLM writes from the
+  // first exchange. Any failure keeps the truncated title.
+  const generateChatTitle = async (chatId: string, question: string, answer: string, chat?: Chat) => {
+    try {
+      const title = normalizeTitle(await chatAPI.generateSessionTitle(chatId, question, answer));
+      if (!title || userTitledChatsRef.current.has(chatId)) return;
+      await saveChatTitle(chatId, title, chat);
+    } catch (e) {
+      console.error('Failed to generate session title:', e);
+    }
+  };
+
+  const handleRenameChat = async (chatId: string, rawTitle: string) => {
+    const title = normalizeTitle(rawTitle);
+    if (!title) return;
+    userTitledChatsRef.current.add(chatId);
+    try {
+      await saveChatTitle(chatId, title, chats.find(c => c.session_id === chatId));
+    } catch (e) {
+      console.error('Failed to rename chat:', e);
+    }
+  };
+
+  const handleDocumentUploaded = (uploaded: Document) => {
+    setDocuments(prev => [uploaded, ...prev.filter(doc => doc.file_id !== uploaded.file_id)]);
+    publishSync('document.created', { document: uploaded });
+  };
+
+  // Failures are left to the sidebar, which tells the user
+  const handleDocumentUpload = async (file: File) => {
+    handleDocumentUploaded(await documentAPI.uploadDocument(file));
+  };
+
+  // Keep the upload view open so the batch summary and any failed files stay visible
   const handleUploadComplete = async () => {
-    setShowDocumentUpload(false);
     try {
       const fresh = await documentAPI.listDocuments();
       setDocuments(fresh);
@@ -235,17 +734,51 @@ export default function ChatPage() {
     }
   };
 
+  // ── document scope ──────────────────────────────────────────────────────────
+
+  // Saved per session so reopening a chat restores the documents it was asking about
+  const saveDocumentScope = async (chatId: string, documentIds: string[]) => {
+    try {
+      await chatAPI.updateSessionDocuments(chatId, documentIds);
+      publishSync('session.documents', { session_id: chatId, document_ids: documentIds });
+    } catch (error) {
+      console.error('Error updating session documents:', error);
+    }
+  };
+
   const handleDocumentsSelect = async (docs: Document[]) => {
-    setSelectedDocuments(docs);
-    if (selectedChatId && docs.length > 0) {
-      try {
-        await chatAPI.updateSessionDocuments(selectedChatId, docs.map(d => d.file_id));
-      } catch (error) {
-        console.error('Error updating session documents:', error);
-      }
+    const ids = docs.map(d => d.file_id);
+    setSelectedDocumentIds(ids);
+    if (selectedChatId) await saveDocumentScope(selectedChatId, ids);
+  };
+
+  const handleRemoveFromScope = (fileId: string) => {
+    handleDocumentsSelect(selectedDocuments.filter(d => d.file_id !== fileId));
+  };
+
+  // ── retrieval settings ──────────────────────────────────────────────────────
+
+  const saveRetrievalSettings = async (chatId: string, settings: RetrievalSettings) => {
+    try {
+      await chatAPI.updateSessionSettings(chatId, settings);
+      publishSync('session.settings', { session_id: chatId, retrieval_settings: settings });
+    } catch (error) {
+      console.error('Error updating session settings:', error);
     }
   };
 
+  // Without an open chat the settings are kept for the next one
+  const handleRetrievalSettingsSave = async (settings: RetrievalSettings) => {
+    setRetrievalSettings(settings);
+    if (selectedChatId) await saveRetrievalSettings(selectedChatId, settings);
+  };
+
+  // Imported sessions are already saved server-side; just list them
+  const handleChatImported = (chat: Chat) => {
+    setChats(prev => prev.some(c => c.session_id === chat.session_id) ? prev : [chat, ...prev]);
+    publishSync('session.created', { session: chat });
+  };
+
   return (
     <div className="flex h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-white overflow-hidden">
       {/* Mobile Sidebar Overlay */}
@@ -261,8 +794,17 @@ export default function ChatPage() {
               onNewChat={handleNewChat}
               onDeleteChat={handleDeleteChat}
               onDeleteDocument={handleDeleteDocument}
+              onDocumentUpdate={handleDocumentUpdate}
               onDocumentUpload={handleDocumentUpload}
+              selectedDocumentIds={scopeDocumentIds}
               onDocumentsSelect={handleDocumentsSelect}
+              onSearchResultSelect={handleSearchResultSelect}
+              onRenameChat={handleRenameChat}
+              organization={organization}
+              hasMoreChats={!!chatsCursor}
+              loadingMoreChats={loadingMoreChats}
+              onLoadMoreChats={loadMoreChats}
+              onChatImported={handleChatImported}
             />
           </div>
         </div>
@@ -279,8 +821,17 @@ export default function ChatPage() {
           onNewChat={handleNewChat}
           onDeleteChat={handleDeleteChat}
           onDeleteDocument={handleDeleteDocument}
+          onDocumentUpdate={handleDocumentUpdate}
           onDocumentUpload={handleDocumentUpload}
+          selectedDocumentIds={scopeDocumentIds}
           onDocumentsSelect={handleDocumentsSelect}
+          onSearchResultSelect={handleSearchResultSelect}
+          onRenameChat={handleRenameChat}
+          organization={organization}
+          hasMoreChats={!!chatsCursor}
+          loadingMoreChats={loadingMoreChats}
+          onLoadMoreChats={loadMoreChats}
+          onChatImported={handleChatImported}
         />
       </div>
 
@@ -298,52 +849,97 @@ export default function ChatPage() {
               </svg>
             </button>
             <div className="min-w-0 flex-1">
-              <h2 className="text-lg sm:text-xl font-bold gradient-text truncate">
-                {selectedChatId ? (currentChatTitle || 'Chat Session') : 'RAG Chatbot'}
-              </h2>
+              {selectedChatId && editingTitle ? (
+                <RenameInput
+                  initialValue={currentChatTitle}
+                  onSubmit={(title) => {
+                    setEditingTitle(false);
+                    handleRenameChat(selectedChatId, title);
+                  }}
+                  onCancel={() => setEditingTitle(false)}
+                  className="w-full max-w-md text-base sm:text-lg font-bold"
+                />
+              ) : selectedChatId ? (
+                <h2
+                  className="text-lg sm:text-xl font-bold gradient-text truncate cursor-text"
+                  onClick={() => setEditingTitle(true)}
+                  title="Click to rename"
+                >
+                  {currentChatTitle || 'Chat Session'}
+                </h2>
+              ) : (
+                <h2 className="text-lg sm:text-xl font-bold gradient-text truncate">RAG Chatbot</h2>
+              )}
               <p className="text-slate-400 text-xs sm:text-sm truncate">
                 {selectedChatId
                   ? 'AI-powered document chat'
                   : 'Welcome back, ' + getUsernameFromEmail(user.email || '')}
-                {selectedDocuments.length > 0 && (
-                  <span className="ml-2 text-blue-400">
-                    • {selectedDocuments.length} doc{selectedDocuments.length !== 1 ? 's' : ''}
-                  </span>
-                )}
                 {user?.email && (
                   <span className="ml-2 text-green-400 text-xs">
                     • Signed in as {user.email}
                   </span>
                 )}
               </p>
+              <DocumentScopeChips
+                documents={selectedDocuments}
+                onRemove={handleRemoveFromScope}
+                onClear={() => handleDocumentsSelect([])}
+              />
             </div>
           </div>
 
           <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
-            <button
-              onClick={() => setShowDocumentUpload(!showDocumentUpload)}
-              className={`${showDocumentUpload ? 'btn-secondary' : 'btn-primary'} px-3 sm:px-6 py-2 sm:py-3 rounded-xl font-medium transition-all flex items-center gap-1 sm:gap-2 group text-sm sm:text-base`}
-            >
-              {showDocumentUpload ? (
-                <>
-                  <svg className="w-4 h-4 sm:w-5 sm:h-5 icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.001 8.001 0 01-7.025-4.09c-.203-.389-.155-.854.121-1.21L10.5 9.75l1.5-1.5L18 2.25l3-3-3 3z" />
+            <RetrievalSettingsMenu settings={retrievalSettings} onSave={handleRetrievalSettingsSave} disabled={isLoading} />
+            {selectedChatId && messages.length > 0 && (
+              <>
+                <button
+                  onClick={() => setShowShareDialog(true)}
+                  className="btn-secondary p-2 sm:p-3 rounded-xl transition-all"
+                  title="Share read-only link"
+                >
+                  <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                   </svg>
-                  <span className="hidden sm:inline">Back to Chat</span>
-                  <span className="sm:hidden">Back</span>
-                </>
-              ) : (
-                <>
-                  <svg className="w-4 h-4 sm:w-5 sm:h-5 icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                  </svg>
-                  <span className="hidden sm:inline">Upload Document</span>
-                  <span className="sm:hidden">Upload</span>
-                </>
-              )}
-            </button>
+                </button>
+                <ExportMenu sessionId={selectedChatId} />
+              </>
+            )}
+            {canEditDocuments && (
+              <button
+                onClick={() => setShowDocumentUpload(!showDocumentUpload)}
+                className={`${showDocumentUpload ? 'btn-secondary' : 'btn-primary'} px-3 sm:px-6 py-2 sm:py-3 rounded-xl font-medium transition-all flex items-center gap-1 sm:gap-2 group text-sm sm:text-base`}
+              >
+                {showDocumentUpload ? (
+                  <>
+                    <svg className="w-4 h-4 sm:w-5 sm:h-5 icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.001 8.001 0 01-7.025-4.09c-.203-.389-.155-.854.121-1.21L10.5 9.75l1.5-1.5L18 2.25l3-3-3 3z" />
+                    </svg>
+                    <span className="hidden sm:inline">Back to Chat</span>
+                    <span className="sm:hidden">Back</span>
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4 sm:w-5 sm:h-5 icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                    </svg>
+                    <span className="hidden sm:inline">Upload Document</span>
+                    <span className="sm:hidden">Upload</span>
+                  </>
+                )}
+              </button>
+            )}
 
             <div className="flex items-center gap-3">
+              <WebSocketStatus />
+              <Link
+                href="/feedback"
+                className="btn-secondary p-2 rounded-lg transition-all"
+                title="Review answer feedback"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+                </svg>
+              </Link>
               <div className="flex items-center gap-2 px-3 py-2 bg-slate-800/50 rounded-lg">
                 <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-sm font-medium">
                   {user.email?.[0]?.toUpperCase() || 'U'}
@@ -366,19 +962,52 @@ export default function ChatPage() {
         </div>
 
         {/* Content Area */}
-        <div className="flex-1 min-h-0">
-          {showDocumentUpload ? (
-            <DocumentUpload onUploadComplete={handleUploadComplete} />
-          ) : (
-            <ChatInterface
-              messages={messages}
-              onSendMessage={handleSendMessage}
-              isLoading={isLoading}
-              streamingContent={streamingContent}
-            />
+        <div className="flex-1 min-h-0 flex">
+          <div className="flex-1 min-w-0">
+            {showDocumentUpload ? (
+              <DocumentUpload onUploadComplete={handleUploadComplete} onDocumentUploaded={handleDocumentUploaded} />
+            ) : (
+              <ChatInterface
+                messages={messages}
+                onSendMessage={handleSendMessage}
+                isLoading={isLoading}
+                streamingContent={streamingContent}
+                streamingSources={streamingSources}
+                onStop={handleStopGeneration}
+                onRegenerate={handleRegenerate}
+                onEditMessage={handleEditMessage}
+                onSelectVariant={handleSelectVariant}
+                onFeedback={handleFeedback}
+                onSourceClick={setViewerSource}
+                highlightMessageId={jumpToMessageId}
+                onHighlightDone={() => setJumpToMessageId(null)}
+                hasOlderMessages={!!olderMessagesCursor}
+                loadingOlder={loadingOlderMessages}
+                onLoadOlder={loadOlderMessages}
+              />
+            )}
+          </div>
+
+          {/* Source viewer — side panel on desktop, full-screen overlay on mobile */}
+          {viewerSource && !showDocumentUpload && (
+            <div className="fixed inset-0 z-40 md:static md:z-auto md:w-[45%] md:max-w-2xl md:flex-shrink-0">
+              <SourceViewer
+                source={viewerSource}
+                documents={documents}
+                onClose={() => setViewerSource(null)}
+              />
+            </div>
           )}
         </div>
       </div>
+
+      {selectedChatId && (
+        <ShareDialog
+          isOpen={showShareDialog}
+          sessionId={selectedChatId}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
     </div>
   );
 }
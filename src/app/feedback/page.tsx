@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../contexts/AuthContext';
+import { FeedbackEntry, FeedbackReason, feedbackAPI, isAbortError, setAuthTokenGetter } from '../../services/api';
+import { describeSourceLocation } from '../../components/Citation';
+import { FEEDBACK_REASONS, getFeedbackReasonLabel } from '../../utils/feedbackReasons';
+
+// How many documents the "most often retrieved" summary lists
+const TOP_DOCUMENTS = 5;
+
+// Documents that turn up most in the sources of the loaded answers. A document that
+// keeps appearing behind bad answers is a candidate for cleanup or re-chunking.
+const countDocuments = (entries: FeedbackEntry[]) => {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    new Set(entry.sources.map(s => s.metadata?.filename || 'Unknown')).forEach(filename => {
+      counts.set(filename, (counts.get(filename) || 0) + 1);
+    });
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, TOP_DOCUMENTS);
+};
+
+// Review of answers users rated down, with the question, the sources retrieved
+// for it and the model, to track down retrieval failures in the corpus
+export default function FeedbackReviewPage() {
+  const { user, getToken } = useAuth();
+  const router = useRouter();
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [entries, setEntries] = useState<FeedbackEntry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openSources, setOpenSources] = useState<Set<string>>(new Set());
+  // A next page still loading for the previous filter must not land in the new list
+  const loadMoreAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setAuthTokenGetter(getToken);
+  }, [getToken]);
+
+  useEffect(() => {
+    if (!user) router.push('/');
+  }, [user, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadMoreAbortRef.current?.abort();
+    setLoadingMore(false);
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    feedbackAPI.listFeedback({ rating: 'down', reason: reason ?? undefined }, controller.signal)
+      .then(page => {
+        setEntries(page.entries);
+        setCursor(page.nextCursor);
+      })
+      .catch(e => {
+        if (isAbortError(e)) return;
+        console.error('Error loading feedback:', e);
+        setError('Could not load feedback. Please try again.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => {
+      controller.abort();
+      loadMoreAbortRef.current?.abort();
+    };
+  }, [user, reason]);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center">
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p>Redirecting to home...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const loadMore = async () => {
+    if (!cursor || loadingMore) return;
+    const controller = new AbortController();
+    loadMoreAbortRef.current = controller;
+    setLoadingMore(true);
+    try {
+      const page = await feedbackAPI.listFeedback({ rating: 'down', reason: reason ?? undefined, cursor }, controller.signal);
+      setEntries(prev => {
+        const known = new Set(prev.map(e => e.feedback_id));
+        return [...prev, ...page.entries.filter(e => !known.has(e.feedback_id))];
+      });
+      setCursor(page.nextCursor);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error('Error loading more feedback:', e);
+      setError('Could not load more feedback.');
+    } finally {
+      if (loadMoreAbortRef.current === controller) {
+        loadMoreAbortRef.current = null;
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const toggleSources = (feedbackId: string) => {
+    setOpenSources(prev => {
+      const next = new Set(prev);
+      if (next.has(feedbackId)) next.delete(feedbackId); else next.add(feedbackId);
+      return next;
+    });
+  };
+
+  const topDocuments = countDocuments(entries);
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full border text-xs transition-colors ${
+      active ? 'bg-blue-500/20 text-blue-300 border-blue-500/40' : 'border-slate-600/50 text-slate-400 hover:text-slate-200'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-white">
+      <div className="bg-slate-900/80 backdrop-blur-sm border-b border-slate-700/50 px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h1 className="text-lg sm:text-xl font-bold gradient-text">Answer feedback</h1>
+          <p className="text-slate-400 text-xs sm:text-sm">Answers rated down, newest first</p>
+        </div>
+        <Link href="/chat" className="btn-secondary px-3 sm:px-4 py-2 rounded-xl text-sm font-medium transition-all flex-shrink-0">
+          Back to Chat
+        </Link>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setReason(null)} className={chipClass(reason === null)}>All reasons</button>
+          {FEEDBACK_REASONS.map(option => (
+            <button key={option.reason} onClick={() => setReason(option.reason)} className={chipClass(reason === option.reason)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {!loading && topDocuments.length > 0 && (
+          <div className="card p-4 rounded-xl border border-slate-700/50">
+            <h2 className="text-xs font-medium text-slate-300 uppercase tracking-wide mb-2">
+              Documents most often behind these answers
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {topDocuments.map(([filename, count]) => (
+                <li key={filename} className="flex justify-between gap-4">
+                  <span className="truncate text-slate-200">{filename}</span>
+                  <span className="text-slate-400 flex-shrink-0">{count} answer{count === 1 ? '' : 's'}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-slate-400 py-10">No negative feedback{reason ? ' with this reason' : ''} yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {entries.map(entry => (
+              <div key={entry.feedback_id} className="card p-4 sm:p-5 rounded-xl border border-slate-700/50 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                  <span>{new Date(entry.created_at).toLocaleString()}</span>
+                  {entry.user_email && <><span>•</span><span>{entry.user_email}</span></>}
+                  {entry.model_used && <><span>•</span><span className="font-mono">{entry.model_used}</span></>}
+                  <div className="flex flex-wrap gap-1 ml-auto">
+                    {entry.reasons.map(r => (
+                      <span key={r} className="px-2 py-0.5 rounded-full border bg-red-500/20 text-red-300 border-red-500/40">
+                        {getFeedbackReasonLabel(r)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Question</p>
+                  <p className="text-slate-200 whitespace-pre-wrap">{entry.query || '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">Answer</p>
+                  <p className="text-slate-300 text-sm whitespace-pre-wrap line-clamp-6">{entry.answer}</p>
+                </div>
+                {entry.comment && (
+                  <div className="border-l-2 border-yellow-500/50 pl-3">
+                    <p className="text-xs text-slate-500 mb-1">Comment</p>
+                    <p className="text-slate-200 text-sm whitespace-pre-wrap">{entry.comment}</p>
+                  </div>
+                )}
+
+                <div>
+                  <button
+                    onClick={() => toggleSources(entry.feedback_id)}
+                    className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    {openSources.has(entry.feedback_id) ? 'Hide' : 'Show'} sources ({entry.sources.length})
+                  </button>
+                  {openSources.has(entry.feedback_id) && (
+                    <div className="mt-2 space-y-2">
+                      {entry.sources.map((source, index) => (
+                        <div key={index} className="p-3 rounded-lg border border-slate-600/30 bg-slate-900/40">
+                          <div className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+                            <span className="font-mono font-bold text-blue-300">[{index + 1}]</span>
+                            <span className="font-medium truncate">{source.metadata?.filename || 'Unknown'}</span>
+                            <span>•</span>
+                            <span className="flex-shrink-0">{describeSourceLocation(source)}</span>
+                            <span>•</span>
+                            <span className="text-green-400 flex-shrink-0">
+                              {source.similarity_score ? (source.similarity_score * 100).toFixed(1) : 'N/A'}% match
+                            </span>
+                          </div>
+                          <p className="text-slate-300 text-xs leading-relaxed">{source.text?.substring(0, 300) || 'No text'}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {cursor && (
+              <div className="flex justify-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="btn-secondary px-4 py-2 rounded-lg text-sm transition-all disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading…' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import type { Metadata, Viewport } from "next";
-import { AuthProvider } from "../contexts/AuthProvider";
+import { ClientProviders } from "../contexts/ClientProviders";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -28,9 +28,9 @@ export default function RootLayout({
         <meta name="color-scheme" content="dark" />
       </head>
       <body className="font-inter bg-gradient-to-br from-slate-900 to-slate-800 text-white antialiased">
-        <AuthProvider>
+        <ClientProviders>
           {children}
-        </AuthProvider>
+        </ClientProviders>
       </body>
     </html>
   );
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import ChatInterface from '../../../components/ChatInterface';
+import { SharedConversation, isAbortError, shareAPI } from '../../../services/api';
+
+// Public, read-only view of a shared conversation snapshot. Needs no sign-in;
+// the share id in the URL is the only credential.
+export default function SharedConversationPage() {
+  const { id } = useParams<{ id: string }>();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'unavailable' | 'error'>('loading');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setStatus('loading');
+    shareAPI.getSharedConversation(id, controller.signal)
+      .then(result => {
+        setConversation(result);
+        setStatus(result ? 'ready' : 'unavailable');
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading shared conversation:', error);
+        setStatus('error');
+      });
+    return () => controller.abort();
+  }, [id]);
+
+  if (status !== 'ready' || !conversation) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 flex items-center justify-center px-4">
+        <div className="text-white text-center max-w-md">
+          {status === 'loading' ? (
+            <>
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+              <p>Loading shared conversation...</p>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold gradient-text mb-3">
+                {status === 'unavailable' ? 'Link unavailable' : 'Something went wrong'}
+              </h1>
+              <p className="text-slate-400 mb-6">
+                {status === 'unavailable'
+                  ? 'This link has expired or was revoked by the person who shared it.'
+                  : 'The conversation could not be loaded. Please try again later.'}
+              </p>
+              <Link href="/" className="btn-primary px-6 py-3 rounded-xl font-medium transition-all inline-block">
+                Go to RAG Chatbot
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { share, messages } = conversation;
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-white overflow-hidden">
+      <div className="bg-slate-900/80 backdrop-blur-sm border-b border-slate-700/50 px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h1 className="text-lg sm:text-xl font-bold gradient-text truncate">{share.title || 'Shared conversation'}</h1>
+          <p className="text-slate-400 text-xs sm:text-sm truncate">
+            Read-only snapshot shared {new Date(share.created_at).toLocaleDateString()}
+            {share.expires_at && ` • available until ${new Date(share.expires_at).toLocaleDateString()}`}
+          </p>
+        </div>
+        <Link href="/" className="btn-secondary px-3 sm:px-4 py-2 rounded-xl text-sm font-medium transition-all flex-shrink-0">
+          RAG Chatbot
+        </Link>
+      </div>
+      <div className="flex-1 min-h-0">
+        <ChatInterface messages={messages} isLoading={false} />
+      </div>
+    </div>
+  );
+}
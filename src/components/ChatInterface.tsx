@@ -1,213 +1,307 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Message } from '../services/api';
-
-// Simple markdown parser for RAG responses
-const parseMarkdown = (text: string) => {
-  if (!text) return text;
-  
-  // Split text into lines for processing
-  const lines = text.split('\n');
-  const elements: React.ReactElement[] = [];
-  let nestedCounter = 0; // Track nested items for numbering
-  
-  lines.forEach((line, index) => {
-    const key = `line-${index}`;
-    const trimmedLine = line.trim();
-    
-    // Skip empty lines but add spacing
-    if (trimmedLine === '') {
-      elements.push(<div key={key} className="mb-2"></div>);
-      return;
-    }
-    
-    // Handle different types of bullet points with proper indentation
-    if (trimmedLine.match(/^[\*\•\-]\s*\*\*.*\*\*:?/)) {
-      // Main bullet with bold heading (e.g., "* **Direct Answer**:")
-      const content = trimmedLine.replace(/^[\*\•\-]\s*/, '');
-      nestedCounter = 0; // Reset nested counter for new main bullet
-      elements.push(
-        <div key={key} className="mb-4 flex items-start">
-          <span className="text-blue-400 mr-3 mt-1 text-lg font-bold">•</span>
-          <div className="flex-1">{processBoldAndCitations(content)}</div>
-        </div>
-      );
-    }
-    else if (trimmedLine.match(/^[\*\•\-]\s+[\*\•\-]/)) {
-      // Nested bullet points (e.g., "* * Agentic AI refers to...") - convert to numbered list
-      const content = trimmedLine.replace(/^[\*\•\-]\s+[\*\•\-]\s*/, '');
-      nestedCounter++; // Increment counter for nested items
-      
-      elements.push(
-        <div key={key} className="mb-2 ml-6 flex items-start">
-          <span className="text-green-400 mr-3 mt-1 font-bold min-w-[20px]">{nestedCounter}.</span>
-          <div className="flex-1">{processBoldAndCitations(content)}</div>
-        </div>
-      );
-    }
-    else if (trimmedLine.match(/^[\*\•\-]\s/)) {
-      // Regular bullet points
-      const content = trimmedLine.replace(/^[\*\•\-]\s*/, '');
-      elements.push(
-        <div key={key} className="mb-2 flex items-start">
-          <span className="text-blue-400 mr-3 mt-1">•</span>
-          <div className="flex-1">{processBoldAndCitations(content)}</div>
-        </div>
-      );
-    }
-    else if (trimmedLine.match(/^\+\s/)) {
-      // Plus bullet points
-      const content = trimmedLine.replace(/^\+\s*/, '');
-      elements.push(
-        <div key={key} className="mb-2 flex items-start">
-          <span className="text-green-400 mr-3 mt-1">+</span>
-          <div className="flex-1">{processBoldAndCitations(content)}</div>
-        </div>
-      );
-    }
-    else if (trimmedLine.match(/^\d+\.\s/)) {
-      // Numbered list items
-      const content = trimmedLine.replace(/^\d+\.\s*/, '');
-      const number = trimmedLine.match(/^(\d+)\./)?.[1] || '1';
-      elements.push(
-        <div key={key} className="mb-2 flex items-start">
-          <span className="text-purple-400 mr-3 mt-1 font-bold min-w-[20px]">{number}.</span>
-          <div className="flex-1">{processBoldAndCitations(content)}</div>
-        </div>
-      );
-    }
-    else if (trimmedLine.match(/^\*\*.*\*\*:?\s*$/)) {
-      // Standalone bold headers
-      elements.push(
-        <div key={key} className="mb-3 mt-4">
-          {processBoldAndCitations(trimmedLine)}
-        </div>
-      );
-    }
-    else {
-      // Regular text with proper spacing
-      elements.push(
-        <div key={key} className="mb-2 leading-relaxed">
-          {processBoldAndCitations(trimmedLine)}
-        </div>
-      );
-    }
-  });
-  
-  return <div className="space-y-1">{elements}</div>;
-};
-
-// Process bold text and citations within a line
-const processBoldAndCitations = (text: string) => {
-  const parts: (string | React.ReactElement)[] = [];
-  let lastIndex = 0;
-  
-  // Enhanced regex to handle bold text with optional colons
-  const boldRegex = /\*\*(.*?)\*\*(:?)/g;
-  let match;
-  
-  while ((match = boldRegex.exec(text)) !== null) {
-    // Add text before the bold part
-    if (match.index > lastIndex) {
-      const beforeText = text.slice(lastIndex, match.index);
-      const citationParts = processCitations(beforeText, parts.length);
-      if (Array.isArray(citationParts)) {
-        parts.push(...citationParts);
-      } else {
-        parts.push(citationParts);
-      }
-    }
-    
-    // Add bold text with colon if present
-    const boldText = match[1];
-    const colon = match[2];
-    parts.push(
-      <strong key={`bold-${parts.length}`} className="font-bold text-blue-300">
-        {boldText}{colon}
-      </strong>
-    );
-    
-    lastIndex = match.index + match[0].length;
-  }
-  
-  // Add remaining text
-  if (lastIndex < text.length) {
-    const remainingText = text.slice(lastIndex);
-    const citationParts = processCitations(remainingText, parts.length);
-    if (Array.isArray(citationParts)) {
-      parts.push(...citationParts);
-    } else {
-      parts.push(citationParts);
-    }
-  }
-  
-  return parts.length > 0 ? parts : text;
-};
-
-// Process citations [1], [2], etc.
-const processCitations = (text: string, keyOffset: number) => {
-  const citationRegex = /\[(\d+)\]/g;
-  const parts: (string | React.ReactElement)[] = [];
-  let lastIndex = 0;
-  let match;
-  
-  while ((match = citationRegex.exec(text)) !== null) {
-    // Add text before citation
-    if (match.index > lastIndex) {
-      parts.push(text.slice(lastIndex, match.index));
-    }
-    
-    // Add citation
-    parts.push(
-      <span 
-        key={`citation-${keyOffset}-${parts.length}`} 
-        className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold bg-blue-600 text-white rounded-md mx-1 shadow-sm"
-        title={`Source ${match[1]}`}
-      >
-        [{match[1]}]
-      </span>
-    );
-    
-    lastIndex = match.index + match[0].length;
-  }
-  
-  // Add remaining text
-  if (lastIndex < text.length) {
-    parts.push(text.slice(lastIndex));
-  }
-  
-  return parts.length > 1 ? parts : text;
-};
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Message, MessageFeedback, Source } from '../services/api';
+import { getVariants, getVariantIndex } from '../utils/messageVariants';
+import { CitationContext, getCitedNumbers, describeSourceLocation } from './Citation';
+import FeedbackControls from './FeedbackControls';
+import MarkdownRenderer from './MarkdownRenderer';
 
 interface ChatInterfaceProps {
   messages: Message[];
-  onSendMessage: (message: string) => void;
+  onSendMessage?: (message: string) => void;  // omit for a read-only transcript, e.g. a shared link
   isLoading: boolean;
   streamingContent?: string;   // token-by-token content being streamed right now
+  streamingSources?: Source[]; // sources received for the answer being streamed
+  onStop?: () => void;         // cancels the in-flight generation
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSelectVariant?: (messageId: string, variantIndex: number) => void;
+  onFeedback?: (messageId: string, feedback: MessageFeedback | null) => void;  // rate an answer
+  onSourceClick?: (source: Source) => void;  // opens the source viewer
+  highlightMessageId?: string | null;        // scroll to and flash this message once it is shown
+  onHighlightDone?: () => void;
+  hasOlderMessages?: boolean;                // earlier messages exist on the server
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;                  // called when the user scrolls near the top
 }
 
-export default function ChatInterface({ messages, onSendMessage, isLoading, streamingContent }: ChatInterfaceProps) {
+// Distance from the top of the message list at which the previous page is requested
+const LOAD_OLDER_THRESHOLD_PX = 300;
+
+export default function ChatInterface({
+  messages,
+  onSendMessage,
+  isLoading,
+  streamingContent,
+  streamingSources,
+  onStop,
+  onRegenerate,
+  onEditMessage,
+  onSelectVariant,
+  onFeedback,
+  onSourceClick,
+  highlightMessageId,
+  onHighlightDone,
+  hasOlderMessages = false,
+  loadingOlder = false,
+  onLoadOlder,
+}: ChatInterfaceProps) {
   const [input, setInput] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [openSourceLists, setOpenSourceLists] = useState<Set<string>>(new Set());
+  const [highlightedSource, setHighlightedSource] = useState<string | null>(null);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleMessages = useMemo(
+    () => Array.isArray(messages) ? messages.filter(msg => msg && msg.id) : [],
+    [messages],
+  );
+  const lastAssistantId = [...visibleMessages].reverse().find(m => m.role === 'assistant')?.id;
+  const lastMessageId = visibleMessages[visibleMessages.length - 1]?.id;
+
+  // Only the rows near the viewport are mounted, so sessions with thousands of
+  // messages stay responsive. Anchoring to the end keeps the row the user is
+  // reading in place when an older page is prepended above it.
+  const virtualizer = useVirtualizer({
+    count: visibleMessages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 160,
+    getItemKey: (index) => visibleMessages[index].id,
+    overscan: 6,
+    anchorTo: 'end',
+    scrollMargin: listRef.current?.offsetTop ?? 0,
+  });
+
+  // Follow new messages and streamed tokens, but not older pages loaded above
+  useEffect(() => {
+    if (isLoading) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    } else if (lastMessageId) {
+      virtualizer.scrollToIndex(virtualizer.options.count - 1, { align: 'end' });
+    }
+  }, [virtualizer, lastMessageId, streamingContent, isLoading]);
+
+  // Declared after the scroll-to-bottom effect so a jump to a search hit wins
+  useEffect(() => {
+    if (!highlightMessageId) return;
+    const index = visibleMessages.findIndex(m => m.id === highlightMessageId);
+    if (index === -1) return;
+    virtualizer.scrollToIndex(index, { align: 'center' });
+    setFlashMessageId(highlightMessageId);
+    onHighlightDone?.();
+  }, [virtualizer, highlightMessageId, visibleMessages, onHighlightDone]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!flashMessageId) return;
+    const t = setTimeout(() => setFlashMessageId(null), 2500);
+    return () => clearTimeout(t);
+  }, [flashMessageId]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  useEffect(() => {
+    if (!highlightedSource) return;
+    const t = setTimeout(() => setHighlightedSource(null), 2000);
+    return () => clearTimeout(t);
+  }, [highlightedSource]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (hasOlderMessages && !loadingOlder && e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      onLoadOlder?.();
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading) {
+    if (input.trim() && !isLoading && onSendMessage) {
       onSendMessage(input.trim());
       setInput('');
     }
   };
 
-  const renderMessage = (message: Message) => {
+  // Clicking an inline [n] expands that answer's sources, scrolls to the nth card
+  // and opens it in the source viewer
+  const focusSource = (listId: string, sources: Source[], citationNumber: number) => {
+    setOpenSourceLists(prev => new Set(prev).add(listId));
+    setHighlightedSource(`${listId}-${citationNumber - 1}`);
+    requestAnimationFrame(() => {
+      document.getElementById(`source-${listId}-${citationNumber - 1}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    const source = sources[citationNumber - 1];
+    if (source) onSourceClick?.(source);
+  };
+
+  const toggleSourceList = (listId: string, open: boolean) => {
+    setOpenSourceLists(prev => {
+      const next = new Set(prev);
+      if (open) next.add(listId); else next.delete(listId);
+      return next;
+    });
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const submitEdit = (messageId: string) => {
+    const content = editDraft.trim();
+    setEditingId(null);
+    if (content && onEditMessage) onEditMessage(messageId, content);
+  };
+
+  const renderMessageActions = (message: Message) => {
+    const isUser = message.role === 'user';
+    const variantCount = getVariants(message).length;
+    const variantIndex = getVariantIndex(message);
+    const canRegenerate = !isUser && message.id === lastAssistantId && !!onRegenerate;
+    const canEdit = isUser && !!onEditMessage;
+    const canRate = !isUser && !!onFeedback;
+
+    if (variantCount < 2 && !canRegenerate && !canEdit && !canRate) return null;
+
+    return (
+      <div className={`mt-3 flex flex-wrap items-center gap-3 text-xs text-slate-400 ${isUser ? 'justify-end' : ''}`}>
+        {variantCount > 1 && onSelectVariant && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onSelectVariant(message.id, variantIndex - 1)}
+              disabled={isLoading || variantIndex === 0}
+              className="px-1 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Previous version"
+            >
+              ‹
+            </button>
+            <span className="font-mono">{variantIndex + 1}/{variantCount}</span>
+            <button
+              onClick={() => onSelectVariant(message.id, variantIndex + 1)}
+              disabled={isLoading || variantIndex === variantCount - 1}
+              className="px-1 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="Next version"
+            >
+              ›
+            </button>
+          </div>
+        )}
+        {canEdit && (
+          <button
+            onClick={() => startEditing(message)}
+            disabled={isLoading}
+            className="flex items-center gap-1 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Edit and resend"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            Edit
+          </button>
+        )}
+        {canRegenerate && (
+          <button
+            onClick={() => onRegenerate?.(message.id)}
+            disabled={isLoading}
+            className="flex items-center gap-1 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Regenerate answer"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Regenerate
+          </button>
+        )}
+        {canRate && (
+          <FeedbackControls
+            feedback={message.feedback}
+            onChange={(feedback) => onFeedback?.(message.id, feedback)}
+            disabled={isLoading}
+          />
+        )}
+      </div>
+    );
+  };
+
+  // `listId` identifies the answer the sources belong to; `content` is that answer,
+  // used to tell sources the model cited apart from ones that were only retrieved
+  const renderSources = (listId: string, sources: Source[], content: string) => {
+    const cited = getCitedNumbers(content);
+    const citedCount = sources.filter((_, index) => cited.has(index + 1)).length;
+
+    return (
+      <div className="mt-4 pt-4 border-t border-slate-600/50">
+        <details
+          className="text-sm"
+          open={openSourceLists.has(listId)}
+          onToggle={(e) => toggleSourceList(listId, (e.currentTarget as HTMLDetailsElement).open)}
+        >
+          <summary className="cursor-pointer text-slate-300 hover:text-white transition-colors flex items-center gap-2 font-medium">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Sources ({sources.length})
+            {cited.size > 0 && (
+              <span className="text-xs font-normal text-slate-400">• {citedCount} cited</span>
+            )}
+          </summary>
+          <div className="mt-3 space-y-2">
+            {sources.map((source, index) => {
+              // Handle different source object structures
+              const sourceObj = source as { metadata?: { filename?: string; chunk_index?: number }; filename?: string; page?: number };
+              const filename = sourceObj?.metadata?.filename || sourceObj?.filename || 'Unknown';
+              const isCited = cited.has(index + 1);
+              const cardId = `${listId}-${index}`;
+
+              return (
+                <div
+                  key={index}
+                  id={`source-${cardId}`}
+                  className={`card p-3 rounded-lg border transition-all ${
+                    highlightedSource === cardId ? 'border-blue-400 ring-2 ring-blue-500/50' : 'border-slate-600/30'
+                  } ${!isCited && cited.size > 0 ? 'opacity-60' : ''} ${onSourceClick ? 'cursor-pointer' : ''}`}
+                  onClick={onSourceClick ? () => onSourceClick(source) : undefined}
+                  title={onSourceClick ? 'Open in document' : undefined}
+                >
+                  <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+                    <span className="font-mono font-bold text-blue-300">[{index + 1}]</span>
+                    <span className="font-medium truncate">{filename}</span>
+                    <span>•</span>
+                    <span className="flex-shrink-0">{describeSourceLocation(source)}</span>
+                    <span>•</span>
+                    <span className="text-green-400 font-medium flex-shrink-0">
+                      {source?.similarity_score ? (source.similarity_score * 100).toFixed(1) : 'N/A'}% match
+                    </span>
+                    <span className={`ml-auto flex-shrink-0 px-1.5 py-0.5 rounded font-medium ${
+                      isCited ? 'bg-blue-500/20 text-blue-300' : 'bg-slate-700/50 text-slate-400'
+                    }`}>
+                      {isCited ? 'Cited' : 'Retrieved'}
+                    </span>
+                  </div>
+                  <div className="text-slate-300 text-xs leading-relaxed">
+                    {source?.text?.substring(0, 200) || 'No text'}...
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      </div>
+    );
+  };
+
+  // Renders answer text with its inline citations bound to `sources`
+  const renderAnswer = (listId: string, content: string, sources: Source[] = []) => (
+    <CitationContext.Provider
+      value={{ sources, onCitationClick: (n) => focusSource(listId, sources, n) }}
+    >
+      <MarkdownRenderer content={content} />
+    </CitationContext.Provider>
+  );
+
+  const renderMessage = (message: Message, animate = false) => {
     const isUser = message.role === 'user';
     
     // Add safety checks
@@ -221,61 +315,63 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, stre
     }
     
     return (
-      <div key={message.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 sm:mb-6 animate-slideInUp`}>
-        <div className={`max-w-[85%] sm:max-w-3xl lg:max-w-4xl ${isUser ? 'message-user' : 'message-assistant'} rounded-2xl px-4 sm:px-6 py-3 sm:py-4 shadow-lg`}>
+      <div id={`message-${message.id}`} className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 sm:mb-6 ${animate ? 'animate-slideInUp' : ''}`}>
+        <div className={`max-w-[85%] sm:max-w-3xl lg:max-w-4xl ${isUser ? 'message-user' : 'message-assistant'} rounded-2xl px-4 sm:px-6 py-3 sm:py-4 shadow-lg transition-shadow duration-500 ${
+          flashMessageId === message.id ? 'ring-2 ring-yellow-400/80' : ''
+        }`}>
           <div className="text-white leading-relaxed font-medium">
-            {isUser ? (
+            {isUser && editingId === message.id ? (
+              <div className="min-w-[16rem]">
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit(message.id);
+                    }
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  rows={3}
+                  autoFocus
+                  className="w-full bg-slate-900/60 text-white border border-slate-500/50 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y text-sm"
+                />
+                <div className="mt-2 flex justify-end gap-2 text-xs">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="btn-secondary px-3 py-1.5 rounded-lg transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => submitEdit(message.id)}
+                    disabled={!editDraft.trim()}
+                    className="btn-primary px-3 py-1.5 rounded-lg transition-all disabled:opacity-50"
+                  >
+                    Save &amp; Send
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
               <div className="whitespace-pre-wrap">{message.content || 'No content'}</div>
             ) : (
-              <div className="markdown-content">
-                {parseMarkdown(message.content || 'No content')}
-              </div>
+              renderAnswer(message.id, message.content || 'No content', message.sources)
             )}
           </div>
           
-          {/* Sources for assistant messages */}
-          {!isUser && message.sources && message.sources.length > 0 && (
-            <div className="mt-4 pt-4 border-t border-slate-600/50">
-              <details className="text-sm">
-                <summary className="cursor-pointer text-slate-300 hover:text-white transition-colors flex items-center gap-2 font-medium">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  Sources ({message.sources.length})
-                </summary>
-                <div className="mt-3 space-y-2">
-                  {message.sources.map((source, index) => {
-                    // Handle different source object structures
-                    const sourceObj = source as { metadata?: { filename?: string; chunk_index?: number }; filename?: string; page?: number };
-                    const filename = sourceObj?.metadata?.filename || sourceObj?.filename || 'Unknown';
-                    const page = sourceObj?.metadata?.chunk_index || sourceObj?.page || 'N/A';
-                    
-                    return (
-                      <div key={index} className="card p-3 rounded-lg border border-slate-600/30">
-                        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
-                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                          <span className="font-medium">{filename}</span>
-                          <span>•</span>
-                          <span>Chunk {page}</span>
-                          <span>•</span>
-                          <span className="text-green-400 font-medium">
-                            {source?.similarity_score ? (source.similarity_score * 100).toFixed(1) : 'N/A'}% match
-                          </span>
-                        </div>
-                        <div className="text-slate-300 text-xs leading-relaxed">
-                          {source?.text?.substring(0, 200) || 'No text'}...
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </details>
+          {message.stopped && (
+            <div className="mt-3 flex items-center gap-1.5 text-xs text-yellow-400/90">
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" strokeWidth={2} />
+              </svg>
+              Generation stopped
             </div>
           )}
-          
-         
+
+          {/* Sources for assistant messages */}
+          {!isUser && message.sources && message.sources.length > 0 && renderSources(message.id, message.sources, message.content || '')}
+
+          {editingId !== message.id && renderMessageActions(message)}
         </div>
       </div>
     );
@@ -284,7 +380,7 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, stre
   return (
     <div className="flex flex-col h-full bg-gradient-to-br from-slate-800 to-slate-900">
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6 space-y-2">
+      <div ref={scrollRef} onScroll={handleScroll} className="relative flex-1 overflow-y-auto p-3 sm:p-4 md:p-6 space-y-2">
         {messages.length === 0 ? (
           <div className="flex items-center justify-center h-full px-4">
             <div className="text-center text-slate-400 max-w-lg sm:max-w-xl lg:max-w-2xl animate-fadeIn">
@@ -300,16 +396,45 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, stre
           </div>
         ) : (
           <>
-            {Array.isArray(messages) && messages.filter(msg => msg && msg.id).map(renderMessage)}
+            {hasOlderMessages && (
+              <div className="flex justify-center py-2">
+                {loadingOlder ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+                ) : (
+                  <button
+                    onClick={onLoadOlder}
+                    className="text-xs text-slate-400 hover:text-white transition-colors"
+                  >
+                    Load earlier messages
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div ref={listRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map(item => (
+                <div
+                  key={item.key}
+                  data-index={item.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute top-0 left-0 w-full"
+                  style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+                >
+                  {/* Rows remount while scrolling, so only a newly arrived message animates in */}
+                  {renderMessage(visibleMessages[item.index], visibleMessages[item.index].id === lastMessageId)}
+                </div>
+              ))}
+            </div>
 
             {/* Streaming bubble — shows while tokens are arriving */}
             {isLoading && streamingContent && (
               <div className="flex justify-start mb-4 sm:mb-6 animate-slideInUp">
                 <div className="max-w-[85%] sm:max-w-3xl lg:max-w-4xl message-assistant rounded-2xl px-4 sm:px-6 py-3 sm:py-4 shadow-lg">
-                  <div className="text-white leading-relaxed font-medium markdown-content">
-                    {parseMarkdown(streamingContent)}
+                  <div className="text-white leading-relaxed font-medium">
+                    {renderAnswer('streaming', streamingContent, streamingSources)}
                     <span className="inline-block w-0.5 h-4 bg-blue-400 ml-0.5 animate-pulse align-middle" />
                   </div>
+                  {streamingSources && streamingSources.length > 0 && renderSources('streaming', streamingSources, streamingContent)}
                 </div>
               </div>
             )}
@@ -333,59 +458,74 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, stre
       </div>
 
       {/* Input Area */}
-      <div className="border-t border-slate-700/50 bg-slate-900/50 backdrop-blur-sm p-3 sm:p-4 md:p-6">
-        <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
-          <div className="flex space-x-2 sm:space-x-3 md:space-x-4 items-end">
-            <div className="flex-1 relative">
-              <textarea
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSubmit(e);
-                  }
-                }}
-                placeholder="Type your message... (Shift + Enter for new line)"
-                disabled={isLoading}
-                rows={1}
-                className="w-full bg-slate-800/50 text-white border border-slate-600/50 rounded-2xl px-4 sm:px-5 md:px-6 py-3 sm:py-4 pr-12 sm:pr-14 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 disabled:opacity-50 transition-all duration-200 resize-none backdrop-blur-sm placeholder-slate-400 text-sm sm:text-base"
-                style={{
-                  minHeight: '48px',
-                  maxHeight: '200px',
-                }}
-              />
-              <div className="absolute right-2 bottom-2 sm:bottom-3">
-                <button
-                  type="submit"
-                  disabled={!input.trim() || isLoading}
-                  className="btn-primary rotate-90 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-2.5 sm:p-3 rounded-xl transition-all duration-200 group disabled:opacity-50"
-                >
-                  <svg 
-                    className="w-4 h-4 sm:w-5 sm:h-5 icon group-hover:scale-110 transition-transform" 
-                    fill="none" 
-                    stroke="currentColor" 
-                    viewBox="0 0 24 24"
-                  >
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                  </svg>
-                </button>
+      {onSendMessage && (
+        <div className="border-t border-slate-700/50 bg-slate-900/50 backdrop-blur-sm p-3 sm:p-4 md:p-6">
+          <form onSubmit={handleSubmit} className="max-w-4xl mx-auto">
+            <div className="flex space-x-2 sm:space-x-3 md:space-x-4 items-end">
+              <div className="flex-1 relative">
+                <textarea
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSubmit(e);
+                    }
+                  }}
+                  placeholder="Type your message... (Shift + Enter for new line)"
+                  disabled={isLoading}
+                  rows={1}
+                  className="w-full bg-slate-800/50 text-white border border-slate-600/50 rounded-2xl px-4 sm:px-5 md:px-6 py-3 sm:py-4 pr-12 sm:pr-14 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 disabled:opacity-50 transition-all duration-200 resize-none backdrop-blur-sm placeholder-slate-400 text-sm sm:text-base"
+                  style={{
+                    minHeight: '48px',
+                    maxHeight: '200px',
+                  }}
+                />
+                <div className="absolute right-2 bottom-2 sm:bottom-3">
+                  {isLoading && onStop ? (
+                    <button
+                      type="button"
+                      onClick={onStop}
+                      className="btn-secondary text-white p-2.5 sm:p-3 rounded-xl transition-all duration-200 group hover:text-red-300"
+                      title="Stop generating"
+                    >
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 icon group-hover:scale-110 transition-transform" fill="currentColor" viewBox="0 0 24 24">
+                        <rect x="6" y="6" width="12" height="12" rx="2" />
+                      </svg>
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!input.trim() || isLoading}
+                      className="btn-primary rotate-90 disabled:bg-gray-600 disabled:cursor-not-allowed text-white p-2.5 sm:p-3 rounded-xl transition-all duration-200 group disabled:opacity-50"
+                    >
+                      <svg 
+                        className="w-4 h-4 sm:w-5 sm:h-5 icon group-hover:scale-110 transition-transform" 
+                        fill="none" 
+                        stroke="currentColor" 
+                        viewBox="0 0 24 24"
+                      >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-          <div className="flex items-center justify-between mt-2 sm:mt-3 text-xs text-slate-500">
-            <div className="flex items-center gap-2 sm:gap-4">
-              <span className="hidden sm:block">Press Enter to send • Shift + Enter for new line</span>
-              <span className="sm:hidden">Enter to send • Shift+Enter for line</span>
+            <div className="flex items-center justify-between mt-2 sm:mt-3 text-xs text-slate-500">
+              <div className="flex items-center gap-2 sm:gap-4">
+                <span className="hidden sm:block">Press Enter to send • Shift + Enter for new line</span>
+                <span className="sm:hidden">Enter to send • Shift+Enter for line</span>
+              </div>
+              {input.length > 0 && (
+                <span className={`${input.length > 1000 ? 'text-yellow-400' : ''}`}>
+                  {input.length}/2000
+                </span>
+              )}
             </div>
-            {input.length > 0 && (
-              <span className={`${input.length > 1000 ? 'text-yellow-400' : ''}`}>
-                {input.length}/2000
-              </span>
-            )}
-          </div>
-        </form>
-      </div>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
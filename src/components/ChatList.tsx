@@ -0,0 +1,466 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Chat, ChatFolder, SessionOrganization } from '../services/api';
+import { ChatOrganization } from '../hooks/useChatOrganization';
+import { getTagColor } from '../utils/tagColors';
+import ChatOrganizeMenu from './ChatOrganizeMenu';
+import RenameInput from './RenameInput';
+
+interface ChatListProps {
+  chats: Chat[];
+  selectedChatId?: string;
+  onChatSelect: (chatId: string) => void;
+  onDeleteChat: (sessionId: string) => void;
+  onRenameChat: (sessionId: string, title: string) => void;
+  organization: ChatOrganization;
+  hasMore: boolean;          // the server has sessions beyond the loaded pages
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+// Flattened so grouped chats can share one virtualized list
+type Row =
+  | { kind: 'section'; id: 'pinned' | 'unfiled'; label: string }
+  | { kind: 'folder'; folder: ChatFolder; count: number; collapsed: boolean }
+  | { kind: 'chat'; chat: Chat };
+
+// Where a dragged chat can be dropped: a folder, "no folder", or the pinned section
+type DropTarget =
+  | { kind: 'pinned' }
+  | { kind: 'unfiled' }
+  | { kind: 'folder'; folderId: string };
+
+const dropTargetKey = (target: DropTarget) => target.kind === 'folder' ? `folder:${target.folderId}` : target.kind;
+
+const isSameTarget = (a: DropTarget | null, b: DropTarget) => !!a && dropTargetKey(a) === dropTargetKey(b);
+
+// Rows within this many of the end of the list trigger loading the next page
+const LOAD_MORE_THRESHOLD_ROWS = 10;
+const DRAG_TYPE = 'application/x-chat-session';
+
+const rowKey = (row: Row) =>
+  row.kind === 'chat' ? row.chat.session_id : row.kind === 'folder' ? `folder-${row.folder.folder_id}` : `section-${row.id}`;
+
+// Pinned chats first, then each folder, then chats without a folder. Chats keep
+// the order they arrive in (most recently updated first) within each group.
+const buildRows = (chats: Chat[], folders: ChatFolder[], collapsed: Set<string>, filtering: boolean): Row[] => {
+  const pinned = chats.filter(c => c.pinned);
+  const rest = chats.filter(c => !c.pinned);
+  const folderIds = new Set(folders.map(f => f.folder_id));
+  const unfiled = rest.filter(c => !c.folder_id || !folderIds.has(c.folder_id));
+
+  // Without pins or folders there is nothing to group: keep the plain list
+  if (pinned.length === 0 && folders.length === 0) return chats.map(chat => ({ kind: 'chat', chat }));
+
+  const rows: Row[] = [];
+  if (pinned.length > 0) {
+    rows.push({ kind: 'section', id: 'pinned', label: 'Pinned' });
+    pinned.forEach(chat => rows.push({ kind: 'chat', chat }));
+  }
+  for (const folder of folders) {
+    const inFolder = rest.filter(c => c.folder_id === folder.folder_id);
+    if (filtering && inFolder.length === 0) continue;
+    const isCollapsed = collapsed.has(folder.folder_id);
+    rows.push({ kind: 'folder', folder, count: inFolder.length, collapsed: isCollapsed });
+    if (!isCollapsed) inFolder.forEach(chat => rows.push({ kind: 'chat', chat }));
+  }
+  if (unfiled.length > 0 || !filtering) {
+    rows.push({ kind: 'section', id: 'unfiled', label: 'Chats' });
+    unfiled.forEach(chat => rows.push({ kind: 'chat', chat }));
+  }
+  return rows;
+};
+
+// Sidebar session list. Only the visible rows are mounted, so accounts with
+// thousands of sessions scroll smoothly; more pages load as the end comes into view.
+// Chats can be pinned, dragged between folders and filtered by tag.
+export default function ChatList({
+  chats,
+  selectedChatId,
+  onChatSelect,
+  onDeleteChat,
+  onRenameChat,
+  organization,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}: ChatListProps) {
+  const { folders, tags, organizeChat, createFolder, renameFolder, deleteFolder, createTag } = organization;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [tagFilter, setTagFilter] = useState<Set<string>>(new Set());
+  const [organizingChatId, setOrganizingChatId] = useState<string | null>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [renamingFolder, setRenamingFolder] = useState<{ id: string; name: string } | null>(null);
+
+  // Drop filters for tags that have since been deleted
+  const activeTagFilter = useMemo(
+    () => new Set([...tagFilter].filter(id => tags.some(t => t.tag_id === id))),
+    [tagFilter, tags],
+  );
+
+  const rows = useMemo(() => {
+    const filtered = activeTagFilter.size === 0
+      ? chats
+      : chats.filter(chat => chat.tag_ids?.some(id => activeTagFilter.has(id)));
+    return buildRows(filtered, folders, collapsedFolders, activeTagFilter.size > 0);
+  }, [chats, folders, collapsedFolders, activeTagFilter]);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => rows[index].kind === 'chat' ? 48 : 32,
+    getItemKey: (index) => rowKey(rows[index]),
+    overscan: 8,
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  // Not while filtering by tag: the filtered list stays short, so scrolling would
+  // never stop pulling in pages. A button loads more instead.
+  const filtering = activeTagFilter.size > 0;
+  useEffect(() => {
+    if (!filtering && hasMore && !loadingMore && lastVisibleIndex >= rows.length - LOAD_MORE_THRESHOLD_ROWS) {
+      onLoadMore();
+    }
+  }, [filtering, hasMore, loadingMore, lastVisibleIndex, rows.length, onLoadMore]);
+
+  const toggleSetItem = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, id: string) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // ── drag and drop ──────────────────────────────────────────────────────────
+  const changesForDrop = (target: DropTarget): SessionOrganization =>
+    target.kind === 'pinned' ? { pinned: true }
+      : target.kind === 'unfiled' ? { pinned: false, folder_id: null }
+        : { pinned: false, folder_id: target.folderId };
+
+  const dropProps = (target: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => isSameTarget(current, target) ? null : current),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const chat = chats.find(c => c.session_id === e.dataTransfer.getData(DRAG_TYPE));
+      if (chat) organizeChat(chat, changesForDrop(target));
+    },
+  });
+
+  const dropHighlight = (target: DropTarget) =>
+    isSameTarget(dropTarget, target) ? 'bg-blue-500/20 ring-1 ring-blue-400/60' : '';
+
+  // ── folder management ──────────────────────────────────────────────────────
+  const submitNewFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFolderName?.trim();
+    if (!name) return;
+    if (await createFolder(name)) setNewFolderName(null);
+  };
+
+  const submitFolderRename = () => {
+    if (!renamingFolder) return;
+    const name = renamingFolder.name.trim();
+    const folder = folders.find(f => f.folder_id === renamingFolder.id);
+    if (name && folder && name !== folder.name) renameFolder(folder.folder_id, name);
+    setRenamingFolder(null);
+  };
+
+  // ── rows ───────────────────────────────────────────────────────────────────
+  const renderSection = (row: Extract<Row, { kind: 'section' }>) => (
+    <div
+      {...dropProps({ kind: row.id })}
+      className={`flex items-center gap-1.5 px-1 py-1.5 rounded-lg text-[10px] font-semibold uppercase tracking-wide text-slate-500 transition-colors ${dropHighlight({ kind: row.id })}`}
+    >
+      {row.id === 'pinned' && (
+        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M16 3a1 1 0 01.7 1.7L15 6.4V10l2.7 2.7A1 1 0 0117 14.4h-4v5.6l-1 1-1-1v-5.6H7a1 1 0 01-.7-1.7L9 10V6.4L7.3 4.7A1 1 0 018 3h8z" />
+        </svg>
+      )}
+      {row.label}
+    </div>
+  );
+
+  const renderFolder = (row: Extract<Row, { kind: 'folder' }>) => {
+    const { folder } = row;
+    const isRenaming = renamingFolder?.id === folder.folder_id;
+    const target: DropTarget = { kind: 'folder', folderId: folder.folder_id };
+    return (
+      <div
+        {...dropProps(target)}
+        className={`group flex items-center gap-1.5 px-1 py-1.5 rounded-lg text-xs text-slate-300 transition-colors hover:bg-slate-700/30 ${dropHighlight(target)}`}
+      >
+        <button
+          onClick={() => toggleSetItem(setCollapsedFolders, folder.folder_id)}
+          className="flex items-center gap-1.5 flex-1 min-w-0 text-left"
+          title={row.collapsed ? 'Expand folder' : 'Collapse folder'}
+        >
+          <svg className={`w-3 h-3 flex-shrink-0 transition-transform ${row.collapsed ? '' : 'rotate-90'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <svg className="w-3.5 h-3.5 flex-shrink-0 text-amber-400/80" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+          </svg>
+          {!isRenaming && <span className="truncate font-medium">{folder.name}</span>}
+        </button>
+        {isRenaming ? (
+          <input
+            value={renamingFolder.name}
+            onChange={(e) => setRenamingFolder({ id: folder.folder_id, name: e.target.value })}
+            onBlur={submitFolderRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitFolderRename();
+              if (e.key === 'Escape') setRenamingFolder(null);
+            }}
+            autoFocus
+            maxLength={60}
+            className="flex-1 min-w-0 bg-slate-800 text-white border border-slate-600/50 rounded px-1.5 py-0.5 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          />
+        ) : (
+          <>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">{row.count}</span>
+            <button
+              onClick={() => setRenamingFolder({ id: folder.folder_id, name: folder.name })}
+              className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-white transition-opacity"
+              title="Rename folder"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => deleteFolder(folder.folder_id)}
+              className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-400 transition-opacity"
+              title="Delete folder (chats are kept)"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderChat = (chat: Chat) => {
+    const isSelected = selectedChatId === chat.session_id;
+    const chatTags = tags.filter(tag => chat.tag_ids?.includes(tag.tag_id));
+    return (
+      <div
+        draggable={renamingChatId !== chat.session_id}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(DRAG_TYPE, chat.session_id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => setDropTarget(null)}
+        className={`group p-2.5 sm:p-3 rounded-xl cursor-pointer transition-all duration-300 ${
+          isSelected
+            ? 'bg-blue-600/20 border border-blue-500/30 text-blue-300'
+            : 'card hover:bg-slate-700/50 text-slate-300 hover:text-white'
+        }`}
+        onClick={() => onChatSelect(chat.session_id)}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+            <div className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full transition-colors flex-shrink-0 ${
+              isSelected ? 'bg-blue-400' : 'bg-slate-500 group-hover:bg-slate-400'
+            }`} />
+            {renamingChatId === chat.session_id ? (
+              <RenameInput
+                initialValue={chat.title}
+                onSubmit={(title) => {
+                  setRenamingChatId(null);
+                  onRenameChat(chat.session_id, title);
+                }}
+                onCancel={() => setRenamingChatId(null)}
+                className="flex-1 text-xs sm:text-sm"
+              />
+            ) : (
+              <span
+                className="truncate text-xs sm:text-sm font-medium"
+                onDoubleClick={(e) => { e.stopPropagation(); setRenamingChatId(chat.session_id); }}
+              >
+                {chat.title}
+              </span>
+            )}
+            {renamingChatId !== chat.session_id && chatTags.length > 0 && (
+              <span className="flex items-center gap-0.5 flex-shrink-0" title={chatTags.map(t => t.name).join(', ')}>
+                {chatTags.map(tag => (
+                  <span key={tag.tag_id} className={`w-1.5 h-1.5 rounded-full ${getTagColor(tag.color).dot}`} />
+                ))}
+              </span>
+            )}
+          </div>
+          <div className={`flex items-center flex-shrink-0 ${renamingChatId === chat.session_id ? 'hidden' : ''}`}>
+            <button
+              onClick={(e) => { e.stopPropagation(); setRenamingChatId(chat.session_id); }}
+              className="opacity-0 group-hover:opacity-100 p-1.5 rounded-lg transition-all duration-200 hover:bg-slate-600/40 hover:text-white"
+              title="Rename chat"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); organizeChat(chat, { pinned: !chat.pinned }); }}
+              className={`p-1.5 rounded-lg transition-all duration-200 hover:bg-slate-600/40 ${
+                chat.pinned ? 'text-amber-400' : 'opacity-0 group-hover:opacity-100 hover:text-amber-300'
+              }`}
+              title={chat.pinned ? 'Unpin chat' : 'Pin chat'}
+            >
+              <svg className="w-3.5 h-3.5" fill={chat.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 3a1 1 0 01.7 1.7L15 6.4V10l2.7 2.7A1 1 0 0117 14.4h-4v5.6l-1 1-1-1v-5.6H7a1 1 0 01-.7-1.7L9 10V6.4L7.3 4.7A1 1 0 018 3h8z" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setOrganizingChatId(current => current === chat.session_id ? null : chat.session_id);
+              }}
+              className={`p-1.5 rounded-lg transition-all duration-200 hover:bg-slate-600/40 hover:text-white ${
+                organizingChatId === chat.session_id ? 'text-white' : 'opacity-0 group-hover:opacity-100'
+              }`}
+              title="Folder, tags and export"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5a1.99 1.99 0 011.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDeleteChat(chat.session_id); }}
+              className="opacity-0 group-hover:opacity-100 p-1.5 hover:bg-red-500/20 hover:text-red-400 rounded-lg transition-all duration-200"
+              title="Delete chat"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+        {organizingChatId === chat.session_id && (
+          <ChatOrganizeMenu
+            chat={chat}
+            folders={folders}
+            tags={tags}
+            onChange={(changes) => organizeChat(chat, changes)}
+            onCreateTag={createTag}
+            onClose={() => setOrganizingChatId(null)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {/* Tag filters and folder creation */}
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {tags.map(tag => (
+          <button
+            key={tag.tag_id}
+            onClick={() => toggleSetItem(setTagFilter, tag.tag_id)}
+            className={`px-1.5 py-0.5 rounded-full border text-[10px] transition-colors ${
+              activeTagFilter.has(tag.tag_id)
+                ? getTagColor(tag.color).chip
+                : 'border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}
+            title={`Show only chats tagged ${tag.name}`}
+          >
+            {tag.name}
+          </button>
+        ))}
+        {activeTagFilter.size > 0 && (
+          <button
+            onClick={() => setTagFilter(new Set())}
+            className="text-[10px] text-blue-400 hover:text-blue-300 px-1"
+          >
+            Clear
+          </button>
+        )}
+        {newFolderName === null ? (
+          <button
+            onClick={() => setNewFolderName('')}
+            className="ml-auto text-[10px] text-slate-400 hover:text-white flex items-center gap-0.5"
+            title="New folder"
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Folder
+          </button>
+        ) : (
+          <form onSubmit={submitNewFolder} className="w-full flex items-center gap-1.5 mt-1">
+            <input
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setNewFolderName(null); }}
+              placeholder="Folder name"
+              autoFocus
+              maxLength={60}
+              className="flex-1 min-w-0 bg-slate-800/50 text-white border border-slate-600/50 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-slate-500"
+            />
+            <button type="submit" disabled={!newFolderName.trim()} className="btn-secondary text-xs px-2 py-1 rounded-md disabled:opacity-50">
+              Add
+            </button>
+            <button type="button" onClick={() => setNewFolderName(null)} className="text-xs text-slate-400 hover:text-white px-1">
+              Cancel
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="overflow-y-auto max-h-48 sm:max-h-60">
+        {rows.length === 0 && (
+          <p className="text-xs text-slate-500 text-center py-4">
+            No {hasMore ? 'loaded ' : ''}chats with the selected tags
+          </p>
+        )}
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualItems.map(item => {
+            const row = rows[item.index];
+            return (
+              <div
+                key={item.key}
+                data-index={item.index}
+                ref={virtualizer.measureElement}
+                className={`absolute top-0 left-0 w-full ${row.kind === 'chat' ? 'pb-1.5 sm:pb-2' : 'pb-1'}`}
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {row.kind === 'section' ? renderSection(row)
+                  : row.kind === 'folder' ? renderFolder(row)
+                    : renderChat(row.chat)}
+              </div>
+            );
+          })}
+        </div>
+        {loadingMore ? (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
+          </div>
+        ) : filtering && hasMore && (
+          <button
+            onClick={onLoadMore}
+            className="w-full py-1.5 text-[10px] text-blue-400 hover:text-blue-300"
+            title="Only loaded chats are filtered"
+          >
+            Load more chats
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Chat, ChatFolder, ChatTag, SessionOrganization } from '../services/api';
+import { TAG_COLOR_NAMES, TagColor, getTagColor } from '../utils/tagColors';
+import ExportMenu from './ExportMenu';
+
+interface ChatOrganizeMenuProps {
+  chat: Chat;
+  folders: ChatFolder[];
+  tags: ChatTag[];
+  onChange: (changes: SessionOrganization) => void;
+  onCreateTag: (name: string, color: string) => Promise<ChatTag | null>;
+  onClose: () => void;
+}
+
+// Inline panel under a chat row for moving it to a folder, editing its tags and exporting it
+export default function ChatOrganizeMenu({ chat, folders, tags, onChange, onCreateTag, onClose }: ChatOrganizeMenuProps) {
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState<TagColor>('blue');
+  const [creatingTag, setCreatingTag] = useState(false);
+  const chatTagIds = chat.tag_ids || [];
+
+  const toggleTag = (tagId: string) => {
+    onChange({
+      tag_ids: chatTagIds.includes(tagId) ? chatTagIds.filter(id => id !== tagId) : [...chatTagIds, tagId],
+    });
+  };
+
+  // New tags are applied to this chat straight away
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTagName.trim();
+    if (!name || creatingTag) return;
+    setCreatingTag(true);
+    const tag = await onCreateTag(name, newTagColor);
+    setCreatingTag(false);
+    if (tag) {
+      setNewTagName('');
+      onChange({ tag_ids: [...chatTagIds, tag.tag_id] });
+    }
+  };
+
+  return (
+    <div
+      className="mt-2 p-2.5 rounded-lg bg-slate-900/70 border border-slate-700/50 space-y-2.5 text-xs cursor-default"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400 w-12 flex-shrink-0">Folder</span>
+        <select
+          value={chat.folder_id || ''}
+          onChange={(e) => onChange({ folder_id: e.target.value || null })}
+          className="flex-1 min-w-0 bg-slate-800 text-slate-200 border border-slate-600/50 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        >
+          <option value="">No folder</option>
+          {folders.map(folder => (
+            <option key={folder.folder_id} value={folder.folder_id}>{folder.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex gap-2">
+        <span className="text-slate-400 w-12 flex-shrink-0 pt-0.5">Tags</span>
+        <div className="flex flex-wrap gap-1 min-w-0">
+          {tags.length === 0 && <span className="text-slate-500">No tags yet</span>}
+          {tags.map(tag => {
+            const active = chatTagIds.includes(tag.tag_id);
+            return (
+              <button
+                key={tag.tag_id}
+                onClick={() => toggleTag(tag.tag_id)}
+                className={`px-1.5 py-0.5 rounded-full border transition-colors ${
+                  active ? getTagColor(tag.color).chip : 'border-slate-600/50 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {tag.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <form onSubmit={handleCreateTag} className="flex items-center gap-1.5">
+        <input
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          placeholder="New tag"
+          maxLength={32}
+          className="flex-1 min-w-0 bg-slate-800 text-white border border-slate-600/50 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-slate-500"
+        />
+        <div className="flex gap-0.5 flex-shrink-0">
+          {TAG_COLOR_NAMES.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setNewTagColor(color)}
+              className={`w-3.5 h-3.5 rounded-full ${getTagColor(color).dot} ${
+                newTagColor === color ? 'ring-2 ring-white/70' : 'opacity-60 hover:opacity-100'
+              }`}
+              title={color}
+            />
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!newTagName.trim() || creatingTag}
+          className="btn-secondary px-2 py-1 rounded-md disabled:opacity-50 flex-shrink-0"
+        >
+          Add
+        </button>
+      </form>
+
+      <div className="flex gap-2">
+        <span className="text-slate-400 w-12 flex-shrink-0 pt-0.5">Export</span>
+        <ExportMenu sessionId={chat.session_id} inline />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { MessageSearchHit } from '../services/api';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps every occurrence of a query word in <mark>
+export function HighlightedText({ text, query }: { text: string; query: string }) {
+  const words = query.trim().split(/\s+/).filter(word => word.length > 1).map(escapeRegExp);
+  if (words.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+interface ChatSearchResultsProps {
+  query: string;
+  hits: MessageSearchHit[];
+  loading: boolean;
+  error: string | null;
+  onSelect: (hit: MessageSearchHit) => void;
+}
+
+// Search hits grouped by session, sessions ordered by their best hit
+export default function ChatSearchResults({ query, hits, loading, error, onSelect }: ChatSearchResultsProps) {
+  if (loading && hits.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="text-xs text-red-400 text-center py-6 px-2">{error}</p>;
+  }
+  if (hits.length === 0) {
+    return <p className="text-xs text-slate-500 text-center py-6 px-2">No messages match &ldquo;{query}&rdquo;</p>;
+  }
+
+  const groups = new Map<string, { title: string; hits: MessageSearchHit[] }>();
+  for (const hit of hits) {
+    const group = groups.get(hit.session_id) || { title: hit.session_title, hits: [] };
+    group.hits.push(hit);
+    groups.set(hit.session_id, group);
+  }
+
+  return (
+    <div className="space-y-3">
+      {[...groups.entries()].map(([sessionId, group]) => (
+        <div key={sessionId}>
+          <div className="flex items-center justify-between gap-2 px-1 mb-1">
+            <h4 className="text-xs font-semibold text-slate-300 truncate">{group.title}</h4>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">
+              {group.hits.length} match{group.hits.length === 1 ? '' : 'es'}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {group.hits.map(hit => (
+              <button
+                key={hit.message_id}
+                onClick={() => onSelect(hit)}
+                className="w-full text-left p-2 rounded-lg hover:bg-slate-700/50 transition-colors"
+              >
+                <div className="flex items-center gap-1.5 text-[10px] text-slate-500 mb-0.5">
+                  <span className={hit.role === 'user' ? 'text-blue-400' : 'text-purple-400'}>
+                    {hit.role === 'user' ? 'You' : 'Assistant'}
+                  </span>
+                  <span>•</span>
+                  <span>{new Date(hit.timestamp).toLocaleDateString()}</span>
+                </div>
+                <p className="text-xs text-slate-300 leading-relaxed line-clamp-3">
+                  <HighlightedText text={hit.snippet} query={query} />
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { createContext, useContext, useState } from 'react';
+import { Source } from '../services/api';
+
+interface CitationContextType {
+  sources: Source[];
+  // Called with the 1-based citation number when a citation that has a source is clicked
+  onCitationClick?: (citationNumber: number) => void;
+}
+
+// Provided around each rendered answer so inline citations can resolve their source
+export const CitationContext = createContext<CitationContextType>({ sources: [] });
+
+// Inline citation markers such as [1] or [12]
+export const CITATION_REGEX = /\[(\d+)\]/g;
+
+// 1-based citation numbers that appear in an answer
+export const getCitedNumbers = (text: string): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(CITATION_REGEX)) {
+    cited.add(Number(match[1]));
+  }
+  return cited;
+};
+
+// "Page 4" when the backend knows the page, otherwise the chunk position
+export const describeSourceLocation = (source: Source): string =>
+  source.metadata?.page ? `Page ${source.metadata.page}` : `Chunk ${source.metadata?.chunk_index ?? 'N/A'}`;
+
+export default function Citation({ number }: { number: number }) {
+  const { sources, onCitationClick } = useContext(CitationContext);
+  const [showPreview, setShowPreview] = useState(false);
+  const source = sources[number - 1];
+
+  // A number with no matching source was made up by the model
+  if (!source) {
+    return (
+      <span
+        className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold bg-red-600/30 text-red-300 border border-red-500/60 border-dashed rounded-md mx-1 line-through decoration-red-400/70"
+        title={`No source [${number}] was retrieved for this answer — possible hallucinated citation`}
+      >
+        [{number}]
+      </span>
+    );
+  }
+
+  const activate = () => onCitationClick?.(number);
+
+  return (
+    <span
+      className="relative inline-block"
+      onMouseEnter={() => setShowPreview(true)}
+      onMouseLeave={() => setShowPreview(false)}
+    >
+      <span
+        role="button"
+        tabIndex={0}
+        className="inline-flex items-center justify-center px-2 py-1 text-xs font-bold bg-blue-600 text-white rounded-md mx-1 shadow-sm cursor-pointer hover:bg-blue-500 transition-colors"
+        onClick={activate}
+        onFocus={() => setShowPreview(true)}
+        onBlur={() => setShowPreview(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            activate();
+          }
+        }}
+      >
+        [{number}]
+      </span>
+
+      {showPreview && (
+        <span className="absolute left-1/2 bottom-full mb-2 -translate-x-1/2 z-30 w-72 block card rounded-lg border border-slate-600/50 bg-slate-900/95 p-3 text-left shadow-xl pointer-events-none animate-fadeIn">
+          <span className="flex items-center gap-2 text-xs text-slate-400 mb-1.5">
+            <span className="font-medium text-slate-200 truncate">{source.metadata?.filename || 'Unknown'}</span>
+            <span>•</span>
+            <span className="flex-shrink-0">{describeSourceLocation(source)}</span>
+          </span>
+          <span className="block text-xs text-green-400 font-medium mb-1.5">
+            {source.similarity_score ? (source.similarity_score * 100).toFixed(1) : 'N/A'}% match
+          </span>
+          <span className="block text-xs text-slate-300 leading-relaxed font-normal">
+            {source.text?.substring(0, 240) || 'No text'}{source.text && source.text.length > 240 ? '…' : ''}
+          </span>
+        </span>
+      )}
+    </span>
+  );
+}
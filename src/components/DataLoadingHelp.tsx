@@ -40,7 +40,7 @@ export default function DataLoadingHelp({ type, isEmpty }: DataLoadingHelpProps)
       <p className="text-xs text-slate-500 mb-3">
         {type === 'chats' 
           ? 'Start a new conversation to see your chat history here'
-          : 'Upload a PDF document to begin chatting with your files'
+          : 'Upload a document to begin chatting with your files'
         }
       </p>
       <div className="text-xs text-blue-400">
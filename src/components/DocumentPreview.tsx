@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Document as PdfDocument, Page as PdfPage } from 'react-pdf';
+import { Document, documentAPI, isAbortError } from '../services/api';
+import '../utils/pdfjs';
+import MarkdownRenderer from './MarkdownRenderer';
+
+const PREVIEW_CHARS = 2000;
+const PREVIEW_ROWS = 8;
+
+type PreviewContent =
+  | { kind: 'pdf'; file: Blob }
+  | { kind: 'markdown'; text: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+// Minimal CSV row splitter: handles quoted fields and "" escapes, which covers previews
+const parseCsvRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+// HTML is previewed as its visible text; the markup itself is never rendered
+const htmlToText = (html: string) =>
+  (new DOMParser().parseFromString(html, 'text/html').body.textContent || '').replace(/\n\s*\n+/g, '\n\n').trim();
+
+const loadPreview = async (fileId: string, fileType: string, signal: AbortSignal): Promise<PreviewContent> => {
+  const type = fileType.toLowerCase();
+
+  if (type === 'pdf') {
+    return { kind: 'pdf', file: await documentAPI.getDocumentFile(fileId, signal) };
+  }
+  if (type === 'md' || type === 'txt' || type === 'csv' || type === 'html') {
+    const text = await (await documentAPI.getDocumentFile(fileId, signal)).text();
+    if (type === 'md') return { kind: 'markdown', text: text.slice(0, PREVIEW_CHARS) };
+    if (type === 'html') return { kind: 'text', text: htmlToText(text).slice(0, PREVIEW_CHARS) };
+    if (type === 'csv') {
+      const rows = text.split(/\r?\n/).filter(line => line.trim()).slice(0, PREVIEW_ROWS).map(parseCsvRow);
+      return { kind: 'table', rows };
+    }
+    return { kind: 'text', text: text.slice(0, PREVIEW_CHARS) };
+  }
+  // Office formats (and anything else) use the text the server extracted
+  return { kind: 'text', text: (await documentAPI.getDocumentPreview(fileId, signal)).slice(0, PREVIEW_CHARS) };
+};
+
+interface DocumentPreviewProps {
+  document: Document;
+  width?: number;  // rendered width of PDF pages
+}
+
+// Type-appropriate preview of a document's beginning: first PDF page, rendered
+// Markdown, the first rows of a CSV, or plain text for everything else.
+export default function DocumentPreview({ document: { file_id: fileId, file_type: fileType }, width = 240 }: DocumentPreviewProps) {
+  const [content, setContent] = useState<PreviewContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setContent(null);
+    setError(null);
+    const controller = new AbortController();
+    loadPreview(fileId, fileType, controller.signal)
+      .then(setContent)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Error loading document preview:', err);
+        setError('Preview unavailable');
+      });
+    return () => controller.abort();
+  }, [fileId, fileType]);
+
+  if (error) {
+    return <p className="text-xs text-slate-500 text-center py-3">{error}</p>;
+  }
+  if (!content) {
+    return (
+      <div className="flex justify-center py-3">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  switch (content.kind) {
+    case 'pdf':
+      return (
+        <PdfDocument
+          file={content.file}
+          onLoadError={(err) => {
+            console.error('Error rendering PDF preview:', err);
+            setError('Preview unavailable');
+          }}
+          loading={<p className="text-xs text-slate-500 text-center py-3">Loading preview…</p>}
+        >
+          <PdfPage pageNumber={1} width={width} renderTextLayer={false} renderAnnotationLayer={false} className="mx-auto rounded shadow" />
+        </PdfDocument>
+      );
+    case 'markdown':
+      return (
+        <div className="text-xs text-slate-300 max-h-64 overflow-y-auto documents-scroll pr-1">
+          <MarkdownRenderer content={content.text} citations={false} />
+        </div>
+      );
+    case 'table':
+      return (
+        <div className="overflow-x-auto max-h-64 documents-scroll rounded border border-slate-700/50">
+          <table className="min-w-full text-[11px] border-collapse">
+            <tbody>
+              {content.rows.map((row, i) => (
+                <tr key={i} className={i === 0 ? 'bg-slate-800/80 font-semibold text-blue-200' : 'text-slate-300'}>
+                  {row.map((cell, j) => (
+                    <td key={j} className="px-2 py-1 border-b border-slate-700/50 whitespace-nowrap max-w-[10rem] truncate">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'text':
+      return (
+        <pre className="text-[11px] leading-relaxed text-slate-300 whitespace-pre-wrap break-words max-h-64 overflow-y-auto documents-scroll pr-1 font-sans">
+          {content.text || 'No text content'}
+        </pre>
+      );
+  }
+}
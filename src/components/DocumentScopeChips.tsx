@@ -0,0 +1,62 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Document } from '../services/api';
+import DocumentTypeIcon from './DocumentTypeIcon';
+import { WEB_PAGE_TYPE } from '../utils/documentTypes';
+
+interface DocumentScopeChipsProps {
+  documents: Document[];           // the documents questions are scoped to
+  onRemove: (fileId: string) => void;
+  onClear: () => void;
+}
+
+// Chips beyond this are folded into "+N more" until expanded
+const MAX_COLLAPSED_CHIPS = 3;
+
+// Shows which documents the open chat searches, in the chat header
+export default function DocumentScopeChips({ documents, onRemove, onClear }: DocumentScopeChipsProps) {
+  const [expanded, setExpanded] = useState(false);
+  if (documents.length === 0) return null;
+
+  const shown = expanded ? documents : documents.slice(0, MAX_COLLAPSED_CHIPS);
+  const hidden = documents.length - shown.length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1.5">
+      <span className="text-[10px] text-slate-500 uppercase tracking-wide mr-0.5">Scope</span>
+      {shown.map(doc => (
+        <span
+          key={doc.file_id}
+          className="flex items-center gap-1 max-w-[12rem] pl-1 pr-0.5 py-0.5 rounded-full bg-blue-500/15 border border-blue-500/30 text-[11px] text-blue-200"
+          title={doc.filename}
+        >
+          <DocumentTypeIcon fileType={doc.source_url ? WEB_PAGE_TYPE : doc.file_type} className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="truncate">{doc.filename}</span>
+          <button
+            onClick={() => onRemove(doc.file_id)}
+            className="p-0.5 rounded-full hover:bg-blue-500/30 hover:text-white transition-colors flex-shrink-0"
+            title="Remove from scope"
+          >
+            <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </span>
+      ))}
+      {hidden > 0 && (
+        <button onClick={() => setExpanded(true)} className="text-[11px] text-blue-400 hover:text-blue-300 px-1">
+          +{hidden} more
+        </button>
+      )}
+      {expanded && documents.length > MAX_COLLAPSED_CHIPS && (
+        <button onClick={() => setExpanded(false)} className="text-[11px] text-slate-400 hover:text-white px-1">
+          Show less
+        </button>
+      )}
+      <button onClick={onClear} className="text-[11px] text-slate-400 hover:text-white px-1" title="Search all documents">
+        Clear
+      </button>
+    </div>
+  );
+}
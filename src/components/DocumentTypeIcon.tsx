@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { getDocumentTypeInfo } from '../utils/documentTypes';
+
+// Outline glyphs (24×24) per document type; unknown types use the plain page
+const GLYPHS: Record<string, string> = {
+  pdf: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+  docx: 'M4 6h16M4 10h16M4 14h10M4 18h7',
+  pptx: 'M4 5h16v10H4zM12 15v4m-4 0h8',
+  md: 'M7 20l4-16m2 16l4-16M6 9h14M4 15h14',
+  html: 'M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4',
+  txt: 'M4 6h16M4 12h16M4 18h12',
+  csv: 'M3 10h18M3 14h18M10 3v18M5 21h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2z',
+  web: 'M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9',
+};
+
+interface DocumentTypeIconProps {
+  fileType: string;
+  className?: string;  // size of the tile
+}
+
+export default function DocumentTypeIcon({ fileType, className = 'w-7 h-7 sm:w-8 sm:h-8' }: DocumentTypeIconProps) {
+  const info = getDocumentTypeInfo(fileType);
+  const glyph = GLYPHS[fileType?.toLowerCase()] || GLYPHS.pdf;
+
+  return (
+    <div
+      className={`${className} bg-gradient-to-br ${info.color} rounded-lg flex items-center justify-center flex-shrink-0 transition-all duration-300`}
+      title={info.label}
+    >
+      <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={glyph} />
+      </svg>
+    </div>
+  );
+}
@@ -1,53 +1,109 @@
 'use client';
 
 import React, { useState } from 'react';
-import { documentAPI, ragAPI } from '../services/api';
+import { Document } from '../services/api';
+import { ACCEPT_ATTRIBUTE, ACCEPTED_TYPES_LABEL, isAcceptedFile } from '../utils/documentTypes';
+import { useUploadQueue, UploadItem, UploadSummary } from '../hooks/useUploadQueue';
+import UrlIngestForm from './UrlIngestForm';
 
 interface DocumentUploadProps {
   onUploadComplete: () => void;
+  // Called as each file is accepted, so it shows up (still ingesting) before the batch ends
+  onDocumentUploaded?: (document: Document) => void;
 }
 
-export default function DocumentUpload({ onUploadComplete }: DocumentUploadProps) {
-  const [uploading, setUploading] = useState(false);
-  const [processing, setProcessing] = useState(false);
-  const [dragOver, setDragOver] = useState(false);
+interface PickedFile {
+  file: File;
+  path?: string;
+}
 
-  const handleFileUpload = async (file: File) => {
-    if (!file || file.type !== 'application/pdf') {
-      alert('Please select a PDF file');
-      return;
-    }
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Reads every file below a dropped file or folder entry
+const readEntry = async (entry: FileSystemEntry): Promise<PickedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: entry.fullPath.replace(/^\//, '') }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries() returns results in batches until it yields an empty list
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map(readEntry));
+  return nested.flat();
+};
 
-    setUploading(true);
-    try {
-      // Upload the document
-      await documentAPI.uploadPDF(file);
-      
-      setUploading(false);
-      setProcessing(true);
-      
-      // Process the document through RAG pipeline
-      await ragAPI.processDocument(file);
-      
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<UploadItem['status'], string> = {
+  queued: 'text-slate-400',
+  uploading: 'text-blue-400',
+  processing: 'text-purple-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500',
+};
+
+export default function DocumentUpload({ onUploadComplete, onDocumentUploaded }: DocumentUploadProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const [skipped, setSkipped] = useState(0);
+  const [unreadable, setUnreadable] = useState(0);  // dropped files or folders the browser couldn't read
+  const [summary, setSummary] = useState<UploadSummary | null>(null);
+
+  const { items, addFiles, cancel, cancelAll, retry, clearFinished } = useUploadQueue({
+    onUploaded: onDocumentUploaded,
+    onSettled: (result) => {
+      setSummary(result);
       onUploadComplete();
-      alert('Document uploaded and processed successfully!');
-    } catch (error) {
-      console.error('Error uploading/processing document:', error);
-      alert('Error uploading document. Please try again.');
-    } finally {
-      setUploading(false);
-      setProcessing(false);
-    }
+    },
+  });
+
+  const busy = items.some(item => ['queued', 'uploading', 'processing'].includes(item.status));
+  const finished = items.filter(item => ['done', 'failed', 'cancelled'].includes(item.status)).length;
+
+  const enqueue = (picked: PickedFile[], unreadableCount = 0) => {
+    const accepted = picked.filter(({ file }) => isAcceptedFile(file));
+    setSkipped(picked.length - accepted.length);
+    setUnreadable(unreadableCount);
+    setSummary(null);
+    if (accepted.length > 0) addFiles(accepted);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileUpload(files[0]);
+
+    // Entries have to be taken synchronously; the DataTransfer is cleared after this handler
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+
+    if (entries.length === 0) {
+      enqueue(Array.from(e.dataTransfer.files).map(file => ({ file })));
+      return;
     }
+
+    // One unreadable item doesn't stop the rest of the drop
+    const results = await Promise.allSettled(entries.map(readEntry));
+    const failures = results.filter(result => result.status === 'rejected');
+    failures.forEach(failure => console.error('Error reading dropped files:', failure.reason));
+    enqueue(results.flatMap(result => result.status === 'fulfilled' ? result.value : []), failures.length);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -61,18 +117,19 @@ export default function DocumentUpload({ onUploadComplete }: DocumentUploadProps
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileUpload(file);
-    }
+    const files = Array.from(e.target.files || []);
+    // Folder picks report each file's path inside the folder
+    enqueue(files.map(file => ({ file, path: file.webkitRelativePath || undefined })));
+    // Allow picking the same files again
+    e.target.value = '';
   };
 
   return (
     <div className="p-4 sm:p-6 md:p-8 bg-gradient-to-br from-slate-800 to-slate-900 min-h-screen flex items-center justify-center">
       <div className="max-w-lg sm:max-w-xl lg:max-w-2xl w-full animate-fadeIn">
         <div className="text-center mb-6 sm:mb-8">
-          <h2 className="text-2xl sm:text-3xl font-bold gradient-text mb-2">Upload Document</h2>
-          <p className="text-slate-400 text-sm sm:text-base">Add PDFs to your knowledge base</p>
+          <h2 className="text-2xl sm:text-3xl font-bold gradient-text mb-2">Upload Documents</h2>
+          <p className="text-slate-400 text-sm sm:text-base">Add {ACCEPTED_TYPES_LABEL} files or web pages to your knowledge base</p>
         </div>
 
         <div
@@ -85,49 +142,34 @@ export default function DocumentUpload({ onUploadComplete }: DocumentUploadProps
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
         >
-          {uploading || processing ? (
-            <div className="flex flex-col items-center animate-slideInUp">
-              <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center mb-4 sm:mb-6">
-                <div className="flex space-x-1">
-                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-white rounded-full animate-bounce"></div>
-                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                </div>
-              </div>
-              <p className="text-slate-300 text-base sm:text-lg font-medium">
-                {uploading ? 'Uploading document...' : 'Processing document...'}
-              </p>
-              <p className="text-slate-500 text-xs sm:text-sm mt-2">
-                {uploading ? 'Please wait while we upload your file' : 'Indexing content for search...'}
-              </p>
+          <div className="animate-slideInUp">
+            <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 sm:mb-6">
+              <svg
+                className="w-8 h-8 sm:w-10 sm:h-10 text-white"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                />
+              </svg>
             </div>
-          ) : (
-            <div className="animate-slideInUp">
-              <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 sm:mb-6">
-                <svg
-                  className="w-8 h-8 sm:w-10 sm:h-10 text-white"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                  />
-                </svg>
-              </div>
-              <h3 className="text-xl sm:text-2xl font-bold text-white mb-2">
-                Drop PDF files here
-              </h3>
-              <p className="text-slate-400 text-base sm:text-lg mb-4 sm:mb-6">
-                or click to browse your computer
-              </p>
+            <h3 className="text-xl sm:text-2xl font-bold text-white mb-2">
+              Drop files or folders here
+            </h3>
+            <p className="text-slate-400 text-base sm:text-lg mb-4 sm:mb-6">
+              or click to browse your computer
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-3">
               <label className="cursor-pointer">
                 <input
                   type="file"
-                  accept=".pdf"
+                  accept={ACCEPT_ATTRIBUTE}
+                  multiple
                   onChange={handleFileSelect}
                   className="hidden"
                 />
@@ -138,10 +180,123 @@ export default function DocumentUpload({ onUploadComplete }: DocumentUploadProps
                   Browse Files
                 </span>
               </label>
+              <label className="cursor-pointer">
+                <input
+                  type="file"
+                  multiple
+                  // Not in React's input typings, but supported by every current browser
+                  {...{ webkitdirectory: '' }}
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+                <span className="btn-secondary text-slate-200 px-6 sm:px-8 py-3 sm:py-4 rounded-xl font-medium transition-all inline-flex items-center gap-2 text-sm sm:text-base">
+                  <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                  </svg>
+                  Browse Folder
+                </span>
+              </label>
             </div>
-          )}
+          </div>
         </div>
-        
+
+        <UrlIngestForm onDocumentsAdded={(added) => added.forEach(doc => onDocumentUploaded?.(doc))} />
+
+        {skipped > 0 && (
+          <p className="mt-3 text-center text-xs sm:text-sm text-yellow-400">
+            Skipped {skipped} file{skipped === 1 ? '' : 's'} with an unsupported type
+          </p>
+        )}
+        {unreadable > 0 && (
+          <p className="mt-3 text-center text-xs sm:text-sm text-red-400">
+            Could not read {unreadable} dropped item{unreadable === 1 ? '' : 's'}. Try choosing {unreadable === 1 ? 'it' : 'them'} with
+            the file picker instead.
+          </p>
+        )}
+
+        {/* Upload queue */}
+        {items.length > 0 && (
+          <div className="mt-6 sm:mt-8 card rounded-2xl p-4 sm:p-6 animate-slideInUp">
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <h4 className="text-white font-semibold text-sm sm:text-base">
+                {busy ? `Uploading ${finished} of ${items.length}` : `${items.length} file${items.length === 1 ? '' : 's'}`}
+              </h4>
+              <div className="flex items-center gap-2 text-xs">
+                {busy && (
+                  <button onClick={cancelAll} className="px-2 py-1 rounded-lg text-slate-400 hover:text-red-400 hover:bg-slate-700/50 transition-colors">
+                    Cancel all
+                  </button>
+                )}
+                {finished > 0 && (
+                  <button onClick={clearFinished} className="px-2 py-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700/50 transition-colors">
+                    Clear finished
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {summary && !busy && (
+              <div className="mb-3 px-3 py-2 rounded-lg bg-slate-800/60 border border-slate-600/50 text-xs sm:text-sm text-slate-300">
+                <span className="text-green-400 font-medium">{summary.done} uploaded</span>
+                {summary.failed > 0 && <>, <span className="text-red-400 font-medium">{summary.failed} failed</span></>}
+                {summary.cancelled > 0 && <>, <span className="text-slate-400">{summary.cancelled} cancelled</span></>}
+              </div>
+            )}
+
+            <ul className="space-y-2 max-h-80 overflow-y-auto documents-scroll pr-1">
+              {items.map(item => {
+                const percent = item.total > 0 ? Math.round((item.loaded / item.total) * 100) : 0;
+                return (
+                  <li key={item.id} className="px-3 py-2 rounded-lg bg-slate-800/40 border border-slate-700/50">
+                    <div className="flex items-center justify-between gap-3 text-xs sm:text-sm">
+                      <span className="text-slate-200 truncate" title={item.path}>{item.path}</span>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={STATUS_COLORS[item.status]}>
+                          {STATUS_LABELS[item.status]}
+                          {item.status === 'uploading' && ` ${percent}%`}
+                        </span>
+                        {['queued', 'uploading', 'processing'].includes(item.status) && (
+                          <button
+                            onClick={() => cancel(item.id)}
+                            className="text-slate-400 hover:text-red-400 transition-colors"
+                            title="Cancel upload"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        {(item.status === 'failed' || item.status === 'cancelled') && (
+                          <button
+                            onClick={() => retry(item.id)}
+                            className="text-blue-400 hover:text-blue-300 transition-colors"
+                            title="Retry upload"
+                          >
+                            Retry
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {(item.status === 'uploading' || item.status === 'processing') && (
+                      <div className="mt-2 h-1.5 rounded-full bg-slate-700/60 overflow-hidden">
+                        <div
+                          className={`h-full rounded-full transition-all ${
+                            item.status === 'processing' ? 'bg-purple-500 animate-pulse' : 'bg-blue-500'
+                          }`}
+                          style={{ width: `${item.status === 'processing' ? 100 : percent}%` }}
+                        />
+                      </div>
+                    )}
+                    <div className="mt-1 text-[11px] text-slate-500">
+                      {item.error || (item.status === 'uploading'
+                        ? `${formatBytes(item.loaded)} of ${formatBytes(item.total)}`
+                        : formatBytes(item.total))}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-6 sm:mt-8 glass p-4 sm:p-6 rounded-2xl">
           <h4 className="text-white font-semibold mb-3 sm:mb-4 flex items-center gap-2 text-sm sm:text-base">
             <svg className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -152,19 +307,19 @@ export default function DocumentUpload({ onUploadComplete }: DocumentUploadProps
           <div className="space-y-2 sm:space-y-3 text-xs sm:text-sm text-slate-300">
             <div className="flex items-center gap-2 sm:gap-3">
               <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-green-400 rounded-full flex-shrink-0"></div>
-              <span>Only PDF files are supported</span>
+              <span>Supported formats: {ACCEPTED_TYPES_LABEL}; other files in a folder are skipped</span>
             </div>
             <div className="flex items-center gap-2 sm:gap-3">
               <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-blue-400 rounded-full flex-shrink-0"></div>
-              <span>Documents will be processed and indexed for search</span>
+              <span>Documents are indexed in the background; the sidebar shows their progress</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
-              <span>Processing may take a few moments</span>
+              <span>Up to 3 files upload at a time; processing may take a few moments</span>
             </div>
             <div className="flex items-center gap-3">
               <div className="w-2 h-2 bg-yellow-400 rounded-full"></div>
-              <span>Maximum file size: 50MB</span>
+              <span>Maximum file size: 50MB per file</span>
             </div>
           </div>
         </div>
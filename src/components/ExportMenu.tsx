@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { isAbortError } from '../services/api';
+import { EXPORT_FORMATS, ExportFormat, exportConversation } from '../utils/conversationExport';
+
+interface ExportMenuProps {
+  sessionId: string;
+  inline?: boolean;  // a row of format buttons instead of a dropdown, e.g. inside a panel
+}
+
+// Export action for a session: Markdown, PDF (via print), HTML or JSON
+export default function ExportMenu({ sessionId, inline = false }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Close the dropdown on any click outside it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setExporting(format);
+    setError(null);
+    try {
+      await exportConversation(sessionId, format, controller.signal);
+      setOpen(false);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error('Error exporting conversation:', e);
+      setError('Export failed. Please try again.');
+    } finally {
+      if (abortRef.current === controller) setExporting(null);
+    }
+  };
+
+  const formatButtons = EXPORT_FORMATS.map(({ format, label }) => (
+    <button
+      key={format}
+      onClick={() => handleExport(format)}
+      disabled={exporting !== null}
+      className={inline
+        ? 'px-1.5 py-0.5 rounded-md border border-slate-600/50 text-slate-300 hover:text-white hover:border-slate-400 disabled:opacity-50 transition-colors'
+        : 'w-full text-left px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700/60 hover:text-white disabled:opacity-50 transition-colors flex items-center justify-between'}
+    >
+      {label}
+      {exporting === format && (
+        <span className={`inline-block animate-spin rounded-full h-3 w-3 border-b-2 border-blue-400 ${inline ? 'ml-1 align-middle' : ''}`} />
+      )}
+    </button>
+  ));
+
+  if (inline) {
+    return (
+      <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+        {formatButtons}
+        {error && <span className="text-red-400 w-full">{error}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="btn-secondary p-2 sm:p-3 rounded-xl transition-all"
+        title="Export conversation"
+      >
+        <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-40 py-1 rounded-lg bg-slate-900/95 border border-slate-700/60 shadow-xl animate-fadeIn">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wide text-slate-500">Export as</p>
+          {formatButtons}
+          {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FeedbackReason, MessageFeedback } from '../services/api';
+import { FEEDBACK_REASONS, MAX_FEEDBACK_COMMENT_LENGTH, getFeedbackReasonLabel } from '../utils/feedbackReasons';
+
+interface FeedbackControlsProps {
+  feedback?: MessageFeedback;
+  onChange: (feedback: MessageFeedback | null) => void;  // null clears the rating
+  disabled?: boolean;
+}
+
+// Thumbs up/down under an answer. Thumbs up is saved straight away; thumbs down
+// first asks what was wrong. Clicking the active thumb again removes the rating.
+// Renders into the parent's wrapping action row; the form takes a line of its own.
+export default function FeedbackControls({ feedback, onChange, disabled = false }: FeedbackControlsProps) {
+  const [editing, setEditing] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState('');
+
+  const openForm = () => {
+    setReasons(feedback?.rating === 'down' ? feedback.reasons : []);
+    setComment(feedback?.rating === 'down' ? feedback.comment : '');
+    setEditing(true);
+  };
+
+  const handleUp = () => {
+    setEditing(false);
+    onChange(feedback?.rating === 'up' ? null : { rating: 'up', reasons: [], comment: '' });
+  };
+
+  const handleDown = () => {
+    if (feedback?.rating === 'down') {
+      setEditing(false);
+      onChange(null);
+    } else if (editing) {
+      setEditing(false);
+    } else {
+      openForm();
+    }
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons(prev => prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]);
+  };
+
+  const submitDown = (e: React.FormEvent) => {
+    e.preventDefault();
+    setEditing(false);
+    onChange({ rating: 'down', reasons, comment: comment.trim() });
+  };
+
+  const thumbClass = (active: boolean) =>
+    `p-1 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active ? 'text-blue-300' : 'hover:text-white'
+    }`;
+
+  return (
+    <>
+      <div className="flex items-center gap-1 min-w-0">
+        <button
+          onClick={handleUp}
+          disabled={disabled}
+          className={thumbClass(feedback?.rating === 'up')}
+          title={feedback?.rating === 'up' ? 'Remove rating' : 'Good answer'}
+          aria-pressed={feedback?.rating === 'up'}
+        >
+          <svg className="w-3.5 h-3.5" fill={feedback?.rating === 'up' ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+          </svg>
+        </button>
+        <button
+          onClick={handleDown}
+          disabled={disabled}
+          className={thumbClass(feedback?.rating === 'down' || editing)}
+          title={feedback?.rating === 'down' ? 'Remove rating' : 'Bad answer'}
+          aria-pressed={feedback?.rating === 'down'}
+        >
+          <svg className="w-3.5 h-3.5" fill={feedback?.rating === 'down' ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.096c.5 0 .905-.405.905-.904 0-.715.211-1.413.608-2.008L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" />
+          </svg>
+        </button>
+        {feedback?.rating === 'down' && !editing && (
+          <button onClick={openForm} disabled={disabled} className="ml-1 truncate hover:text-white transition-colors disabled:opacity-40">
+            {feedback.reasons.length > 0 ? feedback.reasons.map(getFeedbackReasonLabel).join(', ') : 'Add details'}
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <form onSubmit={submitDown} className="w-full p-2.5 rounded-lg bg-slate-900/60 border border-slate-700/50 space-y-2">
+          <p className="text-slate-300">What was wrong with this answer?</p>
+          <div className="flex flex-wrap gap-1">
+            {FEEDBACK_REASONS.map(({ reason, label }) => (
+              <button
+                key={reason}
+                type="button"
+                onClick={() => toggleReason(reason)}
+                className={`px-2 py-0.5 rounded-full border transition-colors ${
+                  reasons.includes(reason)
+                    ? 'bg-red-500/20 text-red-300 border-red-500/40'
+                    : 'border-slate-600/50 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Anything else? (optional)"
+            maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+            rows={2}
+            className="w-full bg-slate-800/60 text-white border border-slate-600/50 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500/50 resize-y placeholder-slate-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setEditing(false)} className="btn-secondary px-3 py-1 rounded-lg transition-all">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary px-3 py-1 rounded-lg transition-all">
+              Send feedback
+            </button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Chat, chatAPI } from '../services/api';
+import {
+  ImportIssue,
+  ImportParseResult,
+  MAX_IMPORT_FILE_BYTES,
+  parseConversationImport,
+} from '../utils/conversationImport';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (chat: Chat) => void;  // called for each session as it is created
+}
+
+const SOURCE_LABELS: Record<ImportParseResult['source'], string> = {
+  'rag-chat': 'RAG Chatbot export',
+  chatgpt: 'ChatGPT export',
+  generic: 'Generic chat JSON',
+};
+
+// Import flow: pick a file, review what will be imported and skipped, then
+// recreate the sessions one by one and report the outcome.
+export default function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<ImportIssue[]>([]);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setFileError(null);
+    setProgress(0);
+    setFailures([]);
+    setImportedCount(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      setFileError(`File is larger than ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB.`);
+      return;
+    }
+    try {
+      setParsed(parseConversationImport(await file.text()));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Could not read the file.');
+    }
+  };
+
+  // One request per conversation, so a failure only loses that conversation
+  const handleImport = async () => {
+    if (!parsed) return;
+    setImporting(true);
+    const failed: ImportIssue[] = [];
+    let imported = 0;
+    for (const [index, conversation] of parsed.conversations.entries()) {
+      try {
+        onImported(await chatAPI.importSession(conversation));
+        imported++;
+      } catch (error) {
+        console.error('Error importing conversation:', error);
+        failed.push({ conversation: conversation.title, reason: 'The server rejected this conversation' });
+      }
+      setProgress(index + 1);
+    }
+    setFailures(failed);
+    setImportedCount(imported);
+    setImporting(false);
+  };
+
+  const messageCount = parsed?.conversations.reduce((sum, c) => sum + c.messages.length, 0) ?? 0;
+  const issues = [...(parsed?.skipped ?? []), ...failures];
+  const done = importedCount !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={handleClose}>
+      <div
+        className="bg-slate-800 p-6 rounded-2xl shadow-2xl w-full max-w-lg mx-4 border border-slate-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold gradient-text">Import conversations</h2>
+          <button onClick={handleClose} disabled={importing} className="text-slate-400 hover:text-white transition-colors disabled:opacity-40">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-4">
+          Choose a JSON export from this app, ChatGPT&apos;s <code className="text-slate-300">conversations.json</code>,
+          or a file with a <code className="text-slate-300">messages</code> list of roles and contents.
+        </p>
+
+        <label className={`btn-secondary px-4 py-2 rounded-lg text-sm text-center transition-all ${importing ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          {fileName ? `Change file (${fileName})` : 'Choose JSON file'}
+          <input ref={inputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        </label>
+
+        {fileError && (
+          <div className="mt-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {fileError}
+          </div>
+        )}
+
+        {parsed && (
+          <div className="mt-4 flex-1 min-h-0 flex flex-col">
+            <div className="text-sm text-slate-300 space-y-1">
+              <p>
+                <span className="text-slate-500">Format:</span> {SOURCE_LABELS[parsed.source]}
+              </p>
+              {done ? (
+                <p className={importedCount === parsed.conversations.length ? 'text-green-400' : 'text-yellow-400'}>
+                  Imported {importedCount} of {parsed.conversations.length} conversation{parsed.conversations.length === 1 ? '' : 's'}.
+                </p>
+              ) : (
+                <p>
+                  {parsed.conversations.length} conversation{parsed.conversations.length === 1 ? '' : 's'} with {messageCount} message{messageCount === 1 ? '' : 's'} ready to import.
+                </p>
+              )}
+            </div>
+
+            {importing && (
+              <div className="mt-3">
+                <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${(progress / Math.max(parsed.conversations.length, 1)) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-slate-400 mt-1">{progress} / {parsed.conversations.length}</p>
+              </div>
+            )}
+
+            {issues.length > 0 && (
+              <div className="mt-3 flex-1 min-h-0 flex flex-col">
+                <p className="text-xs font-medium text-yellow-400 mb-1">
+                  {issues.length} item{issues.length === 1 ? '' : 's'} skipped
+                </p>
+                <ul className="overflow-y-auto text-xs text-slate-400 space-y-1 border border-slate-700/60 rounded-lg p-2 max-h-48">
+                  {issues.map((issue, index) => (
+                    <li key={index}>
+                      {issue.conversation && <span className="text-slate-300">{issue.conversation}: </span>}
+                      {issue.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button onClick={handleClose} disabled={importing} className="btn-secondary px-4 py-2 rounded-lg text-sm transition-all disabled:opacity-50">
+            {done ? 'Close' : 'Cancel'}
+          </button>
+          {!done && (
+            <button
+              onClick={handleImport}
+              disabled={!parsed || parsed.conversations.length === 0 || importing}
+              className="btn-primary px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+            >
+              {importing ? 'Importing…' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { visit, SKIP } from 'unist-util-visit';
+import type { Root, Element, ElementContent, Text } from 'hast';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/dist/katex.min.css';
+import Citation, { CITATION_REGEX } from './Citation';
+import MermaidDiagram from './MermaidDiagram';
+
+// Turns "[n]" in prose into <sup data-citation="n"> so the `sup` component can render
+// a <Citation>. Runs after sanitizing, and leaves code, links and math untouched.
+const rehypeCitations = () => (tree: Root) => {
+  visit(tree, (node, index, parent) => {
+    if (node.type === 'element') {
+      if (['code', 'pre', 'a'].includes(node.tagName)) return SKIP;
+      if ((node.properties?.className as string[] | undefined)?.includes('katex')) return SKIP;
+    }
+    if (node.type !== 'text' || !parent || index === undefined) return;
+
+    const value = (node as Text).value;
+    const replacement: ElementContent[] = [];
+    let lastIndex = 0;
+    for (const match of value.matchAll(CITATION_REGEX)) {
+      if (match.index > lastIndex) {
+        replacement.push({ type: 'text', value: value.slice(lastIndex, match.index) });
+      }
+      replacement.push({
+        type: 'element',
+        tagName: 'sup',
+        properties: { dataCitation: match[1] },
+        children: [{ type: 'text', value: match[0] }],
+      });
+      lastIndex = match.index + match[0].length;
+    }
+    if (lastIndex === 0) return;
+    if (lastIndex < value.length) {
+      replacement.push({ type: 'text', value: value.slice(lastIndex) });
+    }
+
+    parent.children.splice(index, 1, ...replacement);
+    return [SKIP, index + replacement.length];
+  });
+};
+
+// Plain text of a hast element, used for the code block copy button
+const textOf = (node: Element | ElementContent | undefined): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(textOf).join('');
+  return '';
+};
+
+function CodeBlock({ node, children, ...props }: React.ComponentProps<'pre'> & { node?: Element }) {
+  const [copied, setCopied] = useState(false);
+  const code = node?.children[0];
+  const language = code?.type === 'element'
+    ? (code.properties?.className as string[] | undefined)
+      ?.find(c => c.startsWith('language-'))
+      ?.replace('language-', '')
+    : undefined;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(textOf(code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  const block = (
+    <div className="relative group my-3 rounded-xl border border-slate-600/50 bg-slate-950/80 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-700/60 text-xs text-slate-400">
+        <span className="font-mono">{language || 'text'}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-2 py-0.5 rounded hover:bg-slate-700/60 hover:text-white transition-colors"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre
+        {...props}
+        className="overflow-x-auto p-3 text-sm leading-relaxed [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-slate-200 [&_code]:text-sm"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+
+  // ```mermaid fences become diagrams; the plain code block is the fallback
+  if (language === 'mermaid') {
+    return <MermaidDiagram code={textOf(code)} fallback={block} />;
+  }
+  return block;
+}
+
+// react-markdown passes the hast `node` to every component; keep it off the DOM
+const domProps = <P extends { node?: unknown }>(props: P): Omit<P, 'node'> => {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+};
+
+const components: Components = {
+  h1: (props) => <h1 className="text-xl font-bold text-blue-300 mt-4 mb-2" {...domProps(props)} />,
+  h2: (props) => <h2 className="text-lg font-bold text-blue-300 mt-4 mb-2" {...domProps(props)} />,
+  h3: (props) => <h3 className="text-base font-bold text-blue-300 mt-3 mb-2" {...domProps(props)} />,
+  h4: (props) => <h4 className="font-semibold text-blue-200 mt-3 mb-1" {...domProps(props)} />,
+  p: (props) => <p className="mb-2 leading-relaxed" {...domProps(props)} />,
+  strong: (props) => <strong className="font-bold text-blue-300" {...domProps(props)} />,
+  em: (props) => <em className="italic text-slate-200" {...domProps(props)} />,
+  a: (props) => (
+    <a className="text-blue-400 underline hover:text-blue-300" target="_blank" rel="noopener noreferrer" {...domProps(props)} />
+  ),
+  ul: ({ className, ...props }) => (
+    <ul
+      {...domProps(props)}
+      className={`mb-2 pl-6 space-y-1 ${className?.includes('contains-task-list') ? 'list-none pl-1' : 'list-disc marker:text-blue-400'}`}
+    />
+  ),
+  ol: (props) => <ol className="mb-2 pl-6 space-y-1 list-decimal marker:text-purple-400 marker:font-bold" {...domProps(props)} />,
+  li: (props) => <li className="leading-relaxed" {...domProps(props)} />,
+  input: (props) => <input {...domProps(props)} disabled className="mr-2 align-middle accent-blue-500" />,
+  blockquote: (props) => (
+    <blockquote className="my-2 border-l-4 border-blue-500/60 bg-slate-800/40 pl-4 py-1 text-slate-300 italic" {...domProps(props)} />
+  ),
+  hr: (props) => <hr className="my-4 border-slate-600/50" {...domProps(props)} />,
+  table: (props) => (
+    <div className="my-3 overflow-x-auto rounded-lg border border-slate-600/50">
+      <table className="min-w-full text-sm border-collapse" {...domProps(props)} />
+    </div>
+  ),
+  thead: (props) => <thead className="bg-slate-800/80" {...domProps(props)} />,
+  th: (props) => <th className="px-3 py-2 text-left font-semibold text-blue-200 border-b border-slate-600/50" {...domProps(props)} />,
+  td: (props) => <td className="px-3 py-2 border-b border-slate-700/50 align-top" {...domProps(props)} />,
+  pre: CodeBlock,
+  code: ({ className, ...props }) =>
+    className?.includes('language-') || className?.includes('hljs') ? (
+      <code className={className} {...domProps(props)} />
+    ) : (
+      <code className="px-1.5 py-0.5 rounded bg-slate-900/70 text-pink-300 font-mono text-[0.9em]" {...domProps(props)} />
+    ),
+  sup: (props) => {
+    const citation = props.node?.properties?.dataCitation;
+    if (citation !== undefined) return <Citation number={Number(citation)} />;
+    return <sup {...domProps(props)} />;
+  },
+};
+
+// CommonMark + GFM renderer for assistant answers, with $inline$ / $$display$$ math and
+// Mermaid diagrams. Raw HTML in the source is never rendered, and the tree is sanitized
+// before KaTeX, highlighting and citation handling add their own markup.
+// Pass `citations={false}` for text that isn't an answer (e.g. document previews).
+export default function MarkdownRenderer({ content, citations = true }: { content: string; citations?: boolean }) {
+  return (
+    <div className="markdown-content">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          rehypeSanitize,
+          // Invalid TeX is shown as its source instead of breaking the answer
+          [rehypeKatex, { errorColor: '#fca5a5' }],
+          [rehypeHighlight, { detect: false, plainText: ['mermaid'] }],
+          ...(citations ? [rehypeCitations] : []),
+        ]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useEffect, useId, useState } from 'react';
+
+let mermaidInit: Promise<typeof import('mermaid').default> | null = null;
+
+// Mermaid is large, so it's only loaded the first time a diagram is shown
+const loadMermaid = () => {
+  if (!mermaidInit) {
+    mermaidInit = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+      return mermaid;
+    });
+  }
+  return mermaidInit;
+};
+
+interface MermaidDiagramProps {
+  code: string;
+  fallback: React.ReactNode;  // shown while loading and when the diagram can't be rendered
+}
+
+export default function MermaidDiagram({ code, fallback }: MermaidDiagramProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+
+    loadMermaid()
+      .then(async mermaid => {
+        // parse() rejects on invalid syntax instead of rendering an error diagram
+        await mermaid.parse(code);
+        const { svg } = await mermaid.render(id, code);
+        if (!cancelled) setSvg(svg);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.warn('Could not render Mermaid diagram:', error);
+        setSvg(null);
+        setFailed(true);
+      });
+
+    return () => { cancelled = true; };
+  }, [code, id]);
+
+  if (failed || !svg) return <>{fallback}</>;
+
+  return (
+    <div
+      className="my-3 flex justify-center overflow-x-auto rounded-xl border border-slate-600/50 bg-slate-950/60 p-3"
+      // Output of mermaid.render with securityLevel 'strict' (sanitized by Mermaid)
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
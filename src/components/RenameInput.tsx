@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { MAX_TITLE_LENGTH } from '../utils/sessionTitles';
+
+interface RenameInputProps {
+  initialValue: string;
+  onSubmit: (value: string) => void;  // Enter or clicking away
+  onCancel: () => void;               // Escape
+  className?: string;
+}
+
+// Text field shown in place of a title while it is being renamed
+export default function RenameInput({ initialValue, onSubmit, onCancel, className = '' }: RenameInputProps) {
+  const [value, setValue] = useState(initialValue);
+  // Enter unmounts the input, which fires blur; only the first one counts
+  const finished = useRef(false);
+
+  const finish = (submit: boolean) => {
+    if (finished.current) return;
+    finished.current = true;
+    if (submit && value.trim() && value.trim() !== initialValue) onSubmit(value);
+    else onCancel();
+  };
+
+  return (
+    <input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finish(true);
+        }
+        if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      onClick={(e) => e.stopPropagation()}
+      autoFocus
+      onFocus={(e) => e.currentTarget.select()}
+      maxLength={MAX_TITLE_LENGTH}
+      aria-label="Chat title"
+      className={`min-w-0 bg-slate-800 text-white border border-slate-600/50 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${className}`}
+    />
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { RetrievalSettings } from '../services/api';
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  LLM_MODELS,
+  SEARCH_MODES,
+  TEMPERATURE_RANGE,
+  TOP_K_RANGE,
+  isDefaultRetrievalSettings,
+} from '../utils/retrievalSettings';
+
+interface RetrievalSettingsMenuProps {
+  settings: RetrievalSettings;
+  onSave: (settings: RetrievalSettings) => void;
+  disabled?: boolean;
+}
+
+const labelClass = 'flex items-center justify-between text-xs text-slate-300 mb-1';
+
+// Popover for the open chat's retrieval settings. Edits are kept as a draft and
+// only applied on Save, so dragging a slider doesn't save every step.
+export default function RetrievalSettingsMenu({ settings, onSave, disabled = false }: RetrievalSettingsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the popover on any click outside it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) setDraft(settings);
+    setOpen(!open);
+  };
+
+  const update = <K extends keyof RetrievalSettings>(key: K, value: RetrievalSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const changed = (Object.keys(draft) as (keyof RetrievalSettings)[]).some(key => draft[key] !== settings[key]);
+
+  const handleSave = () => {
+    setOpen(false);
+    if (changed) onSave(draft);
+  };
+
+  // A model saved earlier may have been dropped from the configured list; keep it selectable
+  const models = draft.model && !LLM_MODELS.includes(draft.model) ? [...LLM_MODELS, draft.model] : LLM_MODELS;
+  const customized = !isDefaultRetrievalSettings(settings);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={toggle}
+        disabled={disabled}
+        className="btn-secondary p-2 sm:p-3 rounded-xl transition-all relative disabled:opacity-50"
+        title={customized ? 'Retrieval settings (customized)' : 'Retrieval settings'}
+      >
+        <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+        </svg>
+        {customized && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-400" />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-72 p-4 rounded-lg bg-slate-900/95 border border-slate-700/60 shadow-xl animate-fadeIn space-y-4">
+          <div>
+            <label className={labelClass}>
+              <span>Sources to retrieve</span>
+              <span className="text-slate-400">{draft.top_k}</span>
+            </label>
+            <input
+              type="range"
+              min={TOP_K_RANGE.min}
+              max={TOP_K_RANGE.max}
+              step={1}
+              value={draft.top_k}
+              onChange={(e) => update('top_k', Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>
+              <span>Minimum match</span>
+              <span className="text-slate-400">{draft.min_score > 0 ? `${Math.round(draft.min_score * 100)}%` : 'Off'}</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={draft.min_score}
+              onChange={(e) => update('min_score', Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div>
+            <p className={labelClass}>Search mode</p>
+            <div className="grid grid-cols-3 gap-1">
+              {SEARCH_MODES.map(({ mode, label, hint }) => (
+                <button
+                  key={mode}
+                  onClick={() => update('search_mode', mode)}
+                  title={hint}
+                  className={`px-2 py-1 rounded-md border text-xs transition-colors ${
+                    draft.search_mode === mode
+                      ? 'bg-blue-500/20 text-blue-300 border-blue-500/40'
+                      : 'border-slate-600/50 text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-slate-300 cursor-pointer">
+            <span>Rerank results</span>
+            <input
+              type="checkbox"
+              checked={draft.rerank}
+              onChange={(e) => update('rerank', e.target.checked)}
+              className="accent-blue-500"
+            />
+          </label>
+
+          <div>
+            <p className={labelClass}>Model</p>
+            <select
+              value={draft.model ?? ''}
+              onChange={(e) => update('model', e.target.value || null)}
+              className="w-full bg-slate-800 text-slate-200 border border-slate-600/50 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              <option value="">Server default</option>
+              {models.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>
+              <span>Temperature</span>
+              <span className="text-slate-400">{draft.temperature.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min={TEMPERATURE_RANGE.min}
+              max={TEMPERATURE_RANGE.max}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => update('temperature', Number(e.target.value))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2 pt-1 border-t border-slate-700/60">
+            <button
+              onClick={() => setDraft(DEFAULT_RETRIEVAL_SETTINGS)}
+              disabled={isDefaultRetrievalSettings(draft)}
+              className="text-xs text-slate-400 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              Reset to defaults
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!changed}
+              className="btn-primary px-3 py-1 rounded-lg text-xs transition-all disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { SharedLink, isAbortError, shareAPI } from '../services/api';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  sessionId: string;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const shareUrl = (shareId: string) => `${window.location.origin}/share/${shareId}`;
+
+const isShareExpired = (link: SharedLink) =>
+  !!link.expires_at && new Date(link.expires_at).getTime() <= Date.now();
+
+const describeExpiry = (link: SharedLink) => {
+  if (!link.expires_at) return 'No expiry';
+  if (isShareExpired(link)) return 'Expired';
+  return `Expires ${new Date(link.expires_at).toLocaleDateString()}`;
+};
+
+// Creates read-only snapshot links for a session and lists every link the user
+// has shared so any of them can be revoked
+export default function ShareDialog({ isOpen, sessionId, onClose }: ShareDialogProps) {
+  const [links, setLinks] = useState<SharedLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    shareAPI.listLinks(controller.signal)
+      .then(setLinks)
+      .catch(e => {
+        if (isAbortError(e)) return;
+        console.error('Error loading share links:', e);
+        setError('Could not load your shared links.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!copiedId) return;
+    const t = setTimeout(() => setCopiedId(null), 1500);
+    return () => clearTimeout(t);
+  }, [copiedId]);
+
+  if (!isOpen) return null;
+
+  const copyLink = async (shareId: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(shareId));
+      setCopiedId(shareId);
+    } catch (e) {
+      console.error('Failed to copy link:', e);
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const expiresAt = expiryDays === null ? null : new Date(Date.now() + expiryDays * DAY_MS).toISOString();
+      const link = await shareAPI.createLink(sessionId, expiresAt);
+      setLinks(prev => [link, ...prev]);
+      copyLink(link.share_id);
+    } catch (e) {
+      console.error('Error creating share link:', e);
+      setError('Could not create the link. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    setRevokingId(shareId);
+    setError(null);
+    try {
+      await shareAPI.revokeLink(shareId);
+      setLinks(prev => prev.filter(link => link.share_id !== shareId));
+    } catch (e) {
+      console.error('Error revoking share link:', e);
+      setError('Could not revoke the link. Please try again.');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-slate-800 p-6 rounded-2xl shadow-2xl w-full max-w-lg mx-4 border border-slate-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold gradient-text">Share conversation</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-400 mb-4">
+          Anyone with the link can read this conversation and its sources as it is now, without signing in.
+          Messages sent later are not included.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-slate-300 flex items-center gap-2 flex-1">
+            Expires
+            <select
+              value={expiryDays ?? ''}
+              onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              className="flex-1 bg-slate-900/60 text-slate-200 border border-slate-600/50 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="btn-primary px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+          >
+            {creating ? 'Creating…' : 'Create link'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <h3 className="mt-5 mb-2 text-xs font-medium text-slate-300 uppercase tracking-wide">Shared links</h3>
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-slate-500 py-2">You haven&apos;t shared any conversations yet.</p>
+          ) : (
+            links.map(link => {
+              const expired = isShareExpired(link);
+              return (
+                <div
+                  key={link.share_id}
+                  className={`p-3 rounded-lg border text-sm ${
+                    link.session_id === sessionId ? 'border-blue-500/40 bg-blue-500/5' : 'border-slate-700/60'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-200 truncate flex-1">{link.title || 'Untitled chat'}</span>
+                    {link.session_id === sessionId && (
+                      <span className="text-[10px] uppercase tracking-wide text-blue-300 flex-shrink-0">This chat</span>
+                    )}
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-slate-400">
+                    <span>{new Date(link.created_at).toLocaleDateString()}</span>
+                    <span>•</span>
+                    <span>{link.message_count} message{link.message_count === 1 ? '' : 's'}</span>
+                    <span>•</span>
+                    <span className={expired ? 'text-yellow-400' : ''}>{describeExpiry(link)}</span>
+                    <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+                      {!expired && (
+                        <button
+                          onClick={() => copyLink(link.share_id)}
+                          className="px-2 py-0.5 rounded hover:bg-slate-700/60 hover:text-white transition-colors"
+                        >
+                          {copiedId === link.share_id ? 'Copied' : 'Copy link'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevoke(link.share_id)}
+                        disabled={revokingId === link.share_id}
+                        className="px-2 py-0.5 rounded text-red-400 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                      >
+                        {expired ? 'Remove' : 'Revoke'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,20 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Chat, Document, chatAPI, documentAPI } from '../services/api';
+import React, { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import { Chat, Document, IngestionStatus, MessageSearchHit, chatAPI, documentAPI, isAbortError, isDocumentReady, isIngestionFinished } from '../services/api';
+import { ChatOrganization } from '../hooks/useChatOrganization';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { ACCEPT_ATTRIBUTE, ACCEPTED_TYPES_LABEL, WEB_PAGE_TYPE, getDocumentTypeInfo, isAcceptedFile } from '../utils/documentTypes';
 import AuthStatus from './AuthStatus';
+import ChatList from './ChatList';
+import ChatSearchResults from './ChatSearchResults';
+import DocumentTypeIcon from './DocumentTypeIcon';
+import ImportDialog from './ImportDialog';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+
+// Previews pull in pdf.js, so they're only loaded client-side when first opened
+const DocumentPreview = dynamic(() => import('./DocumentPreview'), { ssr: false });
 
 interface SidebarProps {
   // Data owned by the parent (chat/page.tsx)
@@ -15,10 +27,38 @@ interface SidebarProps {
   onNewChat: () => void;
   onDeleteChat: (sessionId: string) => void;
   onDeleteDocument: (fileId: string) => void;
-  onDocumentUpload: (file: File) => void;
+  onDocumentUpdate: (document: Document) => void;
+  onDocumentUpload: (file: File) => Promise<void>;  // rejects when the upload fails
+  selectedDocumentIds: string[];  // scope of the open chat, owned by the parent
   onDocumentsSelect: (selectedDocuments: Document[]) => void;
+  onSearchResultSelect: (sessionId: string, messageId: string) => void;
+  onRenameChat: (sessionId: string, title: string) => void;
+  organization: ChatOrganization;  // folders, pins and tags
+  hasMoreChats: boolean;
+  loadingMoreChats: boolean;
+  onLoadMoreChats: () => void;
+  onChatImported: (chat: Chat) => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+const INGESTION_LABELS: Record<Exclude<IngestionStatus, 'ready'>, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing',
+  chunking: 'Chunking',
+  embedding: 'Embedding',
+  failed: 'Failed',
+};
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
 export default function Sidebar({
   chats,
   documents,
@@ -28,56 +68,128 @@ export default function Sidebar({
   onNewChat,
   onDeleteChat,
   onDeleteDocument,
+  onDocumentUpdate,
   onDocumentUpload,
+  selectedDocumentIds,
   onDocumentsSelect,
+  onSearchResultSelect,
+  onRenameChat,
+  organization,
+  hasMoreChats,
+  loadingMoreChats,
+  onLoadMoreChats,
+  onChatImported,
 }: SidebarProps) {
-  const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set());
+  const [previewDocumentId, setPreviewDocumentId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  // Name of a picked file that wasn't uploaded because of its type
+  // Last sidebar upload that didn't go through: skipped for its type, or failed
+  const [uploadNotice, setUploadNotice] = useState<{ message: string; failed: boolean } | null>(null);
+  // Viewers of a team workspace can query its library but not change it
+  const { canEditDocuments } = useWorkspace();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const trimmedQuery = searchQuery.trim();
+  const isSearching = trimmedQuery.length >= MIN_SEARCH_LENGTH;
+
+  // ── search message history as the user types ───────────────────────────────
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) {
+      setSearchHits([]);
+      setSearchError(null);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSearching(true);
+    const t = setTimeout(async () => {
+      try {
+        const hits = await chatAPI.searchMessages(trimmedQuery, controller.signal);
+        setSearchHits(hits);
+        setSearchError(null);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Error searching messages:', error);
+        setSearchError('Search failed. Please try again.');
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(t);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+  // Documents still being ingested (or that failed) can't be searched yet
+  const readyDocuments = documents.filter(isDocumentReady);
+  const selectedDocuments = new Set(selectedDocumentIds);
+  const selectedReadyCount = readyDocuments.filter(doc => selectedDocuments.has(doc.file_id)).length;
 
   const handleDocumentSelect = (documentId: string) => {
+    if (!readyDocuments.some(doc => doc.file_id === documentId)) return;
     const next = new Set(selectedDocuments);
     if (next.has(documentId)) {
       next.delete(documentId);
     } else {
       next.add(documentId);
     }
-    setSelectedDocuments(next);
     onDocumentsSelect(documents.filter(doc => next.has(doc.file_id)));
   };
 
   const selectAllDocuments = () => {
-    if (selectedDocuments.size === documents.length) {
-      setSelectedDocuments(new Set());
+    if (selectedReadyCount === readyDocuments.length) {
       onDocumentsSelect([]);
     } else {
-      const allIds = new Set(documents.map(doc => doc.file_id));
-      setSelectedDocuments(allIds);
-      onDocumentsSelect(documents);
+      onDocumentsSelect(readyDocuments);
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      onDocumentUpload(file);
-      // Reset input so the same file can be re-selected
-      event.target.value = '';
+    // Reset input so the same file can be re-selected
+    event.target.value = '';
+    if (!file) return;
+    if (!isAcceptedFile(file)) {
+      setUploadNotice({ message: `Skipped ${file.name}: only ${ACCEPTED_TYPES_LABEL} files can be uploaded`, failed: false });
+      return;
+    }
+    setUploadNotice(null);
+    try {
+      await onDocumentUpload(file);
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      setUploadNotice({ message: `Couldn't upload ${file.name}. Please try again.`, failed: true });
     }
   };
 
   const handleDeleteDocument = async (fileId: string) => {
     try {
       await documentAPI.deleteDocument(fileId);
-      // Remove from local selection state
-      const next = new Set(selectedDocuments);
-      next.delete(fileId);
-      setSelectedDocuments(next);
-      // Tell parent to remove from its list
+      // Parent removes it from its list and from the selection
       onDeleteDocument(fileId);
     } catch (error) {
       console.error('Error deleting document:', error);
     }
   };
 
+  const handleRecrawlDocument = async (doc: Document) => {
+    try {
+      const refreshed = await documentAPI.recrawlDocument(doc.file_id);
+      // Keep what the list already knows; the re-crawl only resets status and crawl time
+      onDocumentUpdate({ ...doc, status: refreshed.status, last_crawled_at: refreshed.last_crawled_at });
+      // Re-indexing makes it unsearchable for a while, so drop it from the selection
+      if (selectedDocuments.has(doc.file_id)) {
+        onDocumentsSelect(documents.filter(d => d.file_id !== doc.file_id && selectedDocuments.has(d.file_id)));
+      }
+    } catch (error) {
+      console.error('Error re-crawling document:', error);
+    }
+  };
+
   const handleDeleteChat = async (sessionId: string) => {
     try {
       await chatAPI.deleteSession(sessionId);
@@ -113,7 +225,10 @@ export default function Sidebar({
       <div className="p-4 sm:p-5 md:p-6 border-b border-slate-700/50 flex-shrink-0">
         <h1 className="text-xl sm:text-2xl font-bold gradient-text mb-2">RAG Chatbot</h1>
         <p className="text-slate-400 text-xs sm:text-sm mb-1 sm:mb-2">Intelligent document chat</p>
-        <AuthStatus className="mb-3 sm:mb-4" />
+        <div className="flex items-center justify-between gap-2 mb-3 sm:mb-4">
+          <AuthStatus className="min-w-0 overflow-hidden" />
+          <WorkspaceSwitcher />
+        </div>
         <button
           onClick={onNewChat}
           className="w-full btn-primary text-white px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-1.5 sm:gap-2 group text-sm sm:text-base"
@@ -135,50 +250,65 @@ export default function Sidebar({
             <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.001 8.001 0 01-7.025-4.09c-.203-.389-.155-.854.121-1.21L10.5 9.75l1.5-1.5L18 2.25l3-3-3 3z" />
             </svg>
-            <h3 className="text-xs sm:text-sm font-medium text-slate-300 uppercase tracking-wide">Recent Chats</h3>
+            <h3 className="text-xs sm:text-sm font-medium text-slate-300 uppercase tracking-wide">
+              {isSearching ? 'Search Results' : 'Recent Chats'}
+            </h3>
+            <button
+              onClick={() => setShowImport(true)}
+              className="ml-auto text-slate-400 hover:text-white p-1 rounded transition-colors"
+              title="Import conversations"
+            >
+              <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+            </button>
           </div>
 
-          <div className="space-y-1.5 sm:space-y-2 overflow-y-auto max-h-48 sm:max-h-60">
-            {chats.length > 0 ? (
-              chats.map((chat) => (
-                <div
-                  key={chat.session_id}
-                  className={`group p-2.5 sm:p-3 rounded-xl cursor-pointer transition-all duration-300 animate-fadeIn ${
-                    selectedChatId === chat.session_id
-                      ? 'bg-blue-600/20 border border-blue-500/30 text-blue-300'
-                      : 'card hover:bg-slate-700/50 text-slate-300 hover:text-white'
-                  }`}
-                  onClick={() => onChatSelect(chat.session_id)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
-                      <div className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full transition-colors ${
-                        selectedChatId === chat.session_id ? 'bg-blue-400' : 'bg-slate-500 group-hover:bg-slate-400'
-                      }`} />
-                      <span className="truncate text-xs sm:text-sm font-medium">{chat.title}</span>
-                    </div>
-                    <button
-                      onClick={(e) => { e.stopPropagation(); handleDeleteChat(chat.session_id); }}
-                      className="opacity-0 group-hover:opacity-100 p-1.5 hover:bg-red-500/20 hover:text-red-400 rounded-lg transition-all duration-200"
-                      title="Delete chat"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                </div>
-              ))
-            ) : (
-              <div className="text-center py-6 text-slate-500">
-                <svg className="w-10 h-10 mx-auto mb-2 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.001 8.001 0 01-7.025-4.09c-.203-.389-.155-.854.121-1.21L10.5 9.75l1.5-1.5L18 2.25l3-3-3 3z" />
-                </svg>
-                <p className="text-sm">No chats yet</p>
-                <p className="text-xs mt-1">Start a new conversation!</p>
-              </div>
-            )}
+          <div className="relative mb-3">
+            <svg className="w-3.5 h-3.5 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+              placeholder="Search all messages..."
+              className="w-full bg-slate-800/50 text-white border border-slate-600/50 rounded-lg pl-8 pr-3 py-1.5 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 placeholder-slate-500"
+            />
           </div>
+
+          {isSearching ? (
+            <div className="overflow-y-auto max-h-48 sm:max-h-60">
+              <ChatSearchResults
+                query={trimmedQuery}
+                hits={searchHits}
+                loading={searching}
+                error={searchError}
+                onSelect={(hit) => onSearchResultSelect(hit.session_id, hit.message_id)}
+              />
+            </div>
+          ) : chats.length > 0 ? (
+            <ChatList
+              chats={chats}
+              selectedChatId={selectedChatId}
+              onChatSelect={onChatSelect}
+              onDeleteChat={handleDeleteChat}
+              onRenameChat={onRenameChat}
+              organization={organization}
+              hasMore={hasMoreChats}
+              loadingMore={loadingMoreChats}
+              onLoadMore={onLoadMoreChats}
+            />
+          ) : (
+            <div className="text-center py-6 text-slate-500">
+              <svg className="w-10 h-10 mx-auto mb-2 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.001 8.001 0 01-7.025-4.09c-.203-.389-.155-.854.121-1.21L10.5 9.75l1.5-1.5L18 2.25l3-3-3 3z" />
+              </svg>
+              <p className="text-sm">No chats yet</p>
+              <p className="text-xs mt-1">Start a new conversation!</p>
+            </div>
+          )}
         </div>
 
         {/* Documents Section */}
@@ -192,43 +322,74 @@ export default function Sidebar({
                 <h3 className="text-xs sm:text-sm font-medium text-slate-300 uppercase tracking-wide truncate">Documents</h3>
                 {documents.length > 0 && (
                   <span className="text-xs text-slate-500 flex-shrink-0">
-                    ({selectedDocuments.size}/{documents.length})
+                    ({selectedReadyCount}/{readyDocuments.length})
                   </span>
                 )}
               </div>
               <div className="flex items-center gap-1.5 sm:gap-2 flex-shrink-0">
-                {documents.length > 0 && (
+                {readyDocuments.length > 0 && (
                   <button
                     onClick={selectAllDocuments}
                     className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
                   >
-                    {selectedDocuments.size === documents.length ? 'Deselect' : 'Select All'}
+                    {selectedReadyCount === readyDocuments.length ? 'Deselect' : 'Select All'}
                   </button>
                 )}
-                <label className="cursor-pointer btn-secondary text-xs px-2 py-1 rounded-lg transition-all">
-                  <input type="file" accept=".pdf" onChange={handleFileUpload} className="hidden" />
-                  + Upload
-                </label>
+                {canEditDocuments && (
+                  <label className="cursor-pointer btn-secondary text-xs px-2 py-1 rounded-lg transition-all">
+                    <input type="file" accept={ACCEPT_ATTRIBUTE} onChange={handleFileUpload} className="hidden" />
+                    + Upload
+                  </label>
+                )}
               </div>
             </div>
 
+            {uploadNotice && (
+              <div className={`flex items-start gap-2 mb-2 px-2 py-1.5 rounded-lg border text-xs ${
+                uploadNotice.failed
+                  ? 'bg-red-500/10 border-red-500/20 text-red-400'
+                  : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+              }`}>
+                <span className="flex-1 min-w-0 break-words">{uploadNotice.message}</span>
+                <button
+                  onClick={() => setUploadNotice(null)}
+                  className={`flex-shrink-0 ${uploadNotice.failed ? 'hover:text-red-200' : 'hover:text-yellow-200'}`}
+                  title="Dismiss"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            )}
+
             <div className="space-y-1.5 sm:space-y-2 max-h-40 sm:max-h-52 overflow-y-auto documents-scroll pr-1">
               {documents.length > 0 ? (
                 documents.map((doc) => {
                   const isSelected = selectedDocuments.has(doc.file_id);
+                  const isReady = isDocumentReady(doc);
+                  const failed = doc.status === 'failed';
                   return (
                     <div
                       key={doc.file_id}
-                      className={`document-card p-2.5 sm:p-3 rounded-lg group animate-fadeIn cursor-pointer transition-all duration-300 ${
-                        isSelected ? 'selected ring-1 ring-blue-500 bg-blue-500/10' : 'hover:bg-slate-700/50'
+                      className={`document-card p-2.5 sm:p-3 rounded-lg group animate-fadeIn transition-all duration-300 ${
+                        !isReady
+                          ? 'cursor-not-allowed opacity-70'
+                          : isSelected ? 'cursor-pointer selected ring-1 ring-blue-500 bg-blue-500/10' : 'cursor-pointer hover:bg-slate-700/50'
                       }`}
                       onClick={() => handleDocumentSelect(doc.file_id)}
+                      aria-disabled={!isReady}
+                      title={
+                        failed ? `Ingestion failed${doc.status_error ? `: ${doc.status_error}` : ''}`
+                          : !isReady ? 'Still being indexed — available once ready'
+                          : undefined
+                      }
                     >
                       <div className="flex items-center gap-2 sm:gap-2.5 w-full">
                         <div className={`w-3.5 h-3.5 sm:w-4 sm:h-4 rounded border-2 flex items-center justify-center transition-all duration-300 flex-shrink-0 ${
                           isSelected
                             ? 'opacity-100 bg-gradient-to-br from-blue-500 to-purple-600 border-blue-500'
-                            : 'opacity-0 group-hover:opacity-100 border-slate-400 group-hover:border-blue-400'
+                            : isReady ? 'opacity-0 group-hover:opacity-100 border-slate-400 group-hover:border-blue-400' : 'opacity-0'
                         }`}>
                           {isSelected && (
                             <svg className="w-2 h-2 sm:w-2.5 sm:h-2.5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -236,13 +397,7 @@ export default function Sidebar({
                             </svg>
                           )}
                         </div>
-                        <div className={`w-7 h-7 sm:w-8 sm:h-8 bg-gradient-to-br rounded-lg flex items-center justify-center flex-shrink-0 transition-all duration-300 ${
-                          isSelected ? 'from-blue-600 to-purple-700' : 'from-blue-500 to-purple-600'
-                        }`}>
-                          <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                          </svg>
-                        </div>
+                        <DocumentTypeIcon fileType={doc.source_url ? WEB_PAGE_TYPE : doc.file_type} />
                         <div className="flex-1 min-w-0">
                           <p className={`font-medium truncate transition-colors text-xs sm:text-sm ${
                             isSelected ? 'text-blue-300' : 'text-slate-200 group-hover:text-white'
@@ -250,22 +405,73 @@ export default function Sidebar({
                             {doc.filename}
                           </p>
                           <div className="flex items-center gap-1.5 sm:gap-2 mt-0.5">
-                            <span className="text-xs px-1 py-0.5 sm:px-1.5 bg-slate-700/50 text-slate-400 rounded font-mono">PDF</span>
-                            <span className="text-xs text-slate-500">
-                              {doc.size_bytes ? formatFileSize(doc.size_bytes) : 'Unknown'}
-                            </span>
+                            <span className="text-xs px-1 py-0.5 sm:px-1.5 bg-slate-700/50 text-slate-400 rounded font-mono">{getDocumentTypeInfo(doc.file_type).label}</span>
+                            {doc.status && doc.status !== 'ready' ? (
+                              <span className={`text-xs flex items-center gap-1 ${failed ? 'text-red-400' : 'text-purple-300'}`}>
+                                {!failed && <span className="w-1.5 h-1.5 rounded-full bg-purple-400 animate-pulse"></span>}
+                                {INGESTION_LABELS[doc.status]}{!failed && '…'}
+                              </span>
+                            ) : (
+                              doc.source_url ? (
+                                <span
+                                  className="text-xs text-slate-500 truncate"
+                                  title={`${doc.source_url}${doc.last_crawled_at ? `\nLast crawled ${new Date(doc.last_crawled_at).toLocaleString()}` : ''}`}
+                                >
+                                  {hostnameOf(doc.source_url)}
+                                </span>
+                              ) : (
+                                <span className="text-xs text-slate-500">
+                                  {doc.size_bytes ? formatFileSize(doc.size_bytes) : 'Unknown'}
+                                </span>
+                              )
+                            )}
                           </div>
                         </div>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); handleDeleteDocument(doc.file_id); }}
-                          className="opacity-0 group-hover:opacity-100 p-1 sm:p-1.5 hover:bg-red-500/20 hover:text-red-400 rounded transition-all duration-200 flex-shrink-0"
-                          title="Delete document"
-                        >
-                          <svg className="w-3 h-3 sm:w-3.5 sm:h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        {canEditDocuments && doc.source_url && isIngestionFinished(doc.status) && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleRecrawlDocument(doc); }}
+                            className="opacity-0 group-hover:opacity-100 p-1 sm:p-1.5 hover:bg-slate-600/50 hover:text-white rounded transition-all duration-200 flex-shrink-0"
+                            title="Re-crawl page"
+                          >
+                            <svg className="w-3 h-3 sm:w-3.5 sm:h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                          </button>
+                        )}
+                        {isReady && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setPreviewDocumentId(id => id === doc.file_id ? null : doc.file_id);
+                            }}
+                            className={`p-1 sm:p-1.5 hover:bg-slate-600/50 hover:text-white rounded transition-all duration-200 flex-shrink-0 ${
+                              previewDocumentId === doc.file_id ? 'opacity-100 text-blue-300' : 'opacity-0 group-hover:opacity-100'
+                            }`}
+                            title="Preview document"
+                          >
+                            <svg className="w-3 h-3 sm:w-3.5 sm:h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canEditDocuments && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleDeleteDocument(doc.file_id); }}
+                            className="opacity-0 group-hover:opacity-100 p-1 sm:p-1.5 hover:bg-red-500/20 hover:text-red-400 rounded transition-all duration-200 flex-shrink-0"
+                            title="Delete document"
+                          >
+                            <svg className="w-3 h-3 sm:w-3.5 sm:h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
+                      {previewDocumentId === doc.file_id && (
+                        <div className="mt-2 pt-2 border-t border-slate-700/50 cursor-default" onClick={(e) => e.stopPropagation()}>
+                          <DocumentPreview document={doc} width={220} />
+                        </div>
+                      )}
                     </div>
                   );
                 })
@@ -277,13 +483,17 @@ export default function Sidebar({
                     </svg>
                   </div>
                   <p className="text-sm font-medium text-slate-300 mb-1">No documents</p>
-                  <p className="text-xs text-slate-500">Upload PDFs to start</p>
+                  <p className="text-xs text-slate-500">
+                    {canEditDocuments ? 'Upload documents to start' : 'No one has added documents to this workspace yet'}
+                  </p>
                 </div>
               )}
             </div>
           </div>
         </div>
       </div>
+
+      <ImportDialog isOpen={showImport} onClose={() => setShowImport(false)} onImported={onChatImported} />
     </div>
   );
 }
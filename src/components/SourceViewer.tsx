@@ -0,0 +1,208 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Document as PdfDocument, Page as PdfPage } from 'react-pdf';
+import 'react-pdf/dist/Page/TextLayer.css';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+import { Document, Source, documentAPI, isAbortError } from '../services/api';
+import { pdfjs } from '../utils/pdfjs';
+import DocumentPreview from './DocumentPreview';
+
+type PDFDocumentProxy = pdfjs.PDFDocumentProxy;
+
+// Lowercased, whitespace-collapsed text so PDF text items can be matched against chunk text
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Find the document a source came from: by id when the backend sends one, else by filename
+export const resolveSourceDocument = (source: Source, documents: Document[]): Document | undefined =>
+  documents.find(doc => source.metadata?.file_id && doc.file_id === source.metadata.file_id) ||
+  documents.find(doc => doc.filename === source.metadata?.filename);
+
+interface SourceViewerProps {
+  source: Source;
+  documents: Document[];
+  onClose: () => void;
+}
+
+export default function SourceViewer({ source, documents, onClose }: SourceViewerProps) {
+  const [file, setFile] = useState<Blob | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [numPages, setNumPages] = useState(0);
+  const [pageNumber, setPageNumber] = useState(source.metadata?.page || 1);
+  const [locating, setLocating] = useState(false);
+  const [pageWidth, setPageWidth] = useState(480);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const sourceDocument = resolveSourceDocument(source, documents);
+  // Only PDFs get the page view; other formats show a preview of the whole document
+  const isPdf = !sourceDocument || sourceDocument.file_type === 'pdf';
+  // The documents list is replaced on every poll or sync; only a different file is worth a re-fetch
+  const sourceDocumentId = sourceDocument?.file_id;
+  const chunkText = useMemo(() => normalize(source.text || ''), [source.text]);
+
+  // ── fetch the original file whenever the source changes ────────────────────
+  useEffect(() => {
+    setFile(null);
+    setLoadError(null);
+    setNumPages(0);
+    setPageNumber(source.metadata?.page || 1);
+
+    if (!sourceDocumentId) {
+      setLoadError('The original document for this source is no longer in your library.');
+      return;
+    }
+    if (!isPdf) return;
+
+    const controller = new AbortController();
+    documentAPI.getDocumentFile(sourceDocumentId, controller.signal)
+      .then(setFile)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Error loading source document:', error);
+        setLoadError('Could not load the original document.');
+      });
+    return () => controller.abort();
+  }, [sourceDocumentId, source, isPdf]);
+
+  // ── keep the rendered page as wide as the panel ────────────────────────────
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => {
+      setPageWidth(Math.max(240, Math.floor(entries[0].contentRect.width) - 32));
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // When the backend didn't send a page number, scan pages for the chunk's opening text
+  const locateChunk = useCallback(async (pdf: PDFDocumentProxy) => {
+    const probe = chunkText.slice(0, 80);
+    if (!probe) return;
+    setLocating(true);
+    try {
+      for (let i = 1; i <= pdf.numPages; i++) {
+        const content = await pdf.getPage(i).then(page => page.getTextContent());
+        const pageText = normalize(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+        if (pageText.includes(probe)) {
+          setPageNumber(i);
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error locating chunk in document:', error);
+    } finally {
+      setLocating(false);
+    }
+  }, [chunkText]);
+
+  const handleLoadSuccess = (pdf: PDFDocumentProxy) => {
+    setNumPages(pdf.numPages);
+    if (!source.metadata?.page) locateChunk(pdf);
+  };
+
+  // Wraps text items that belong to the cited chunk in <mark>
+  const highlightChunk = useCallback(({ str }: { str: string }) => {
+    const item = normalize(str);
+    if (item.length >= 3 && chunkText.includes(item)) {
+      return `<mark class="source-highlight">${escapeHtml(str)}</mark>`;
+    }
+    return escapeHtml(str);
+  }, [chunkText]);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900/95 border-l border-slate-700/50 animate-slideInLeft">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-slate-700/50 flex items-center justify-between gap-3 flex-shrink-0">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wide text-slate-400">Source</p>
+          <h3 className="text-sm font-semibold text-white truncate" title={source.metadata?.filename}>
+            {source.metadata?.filename || 'Unknown document'}
+          </h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition-all"
+          title="Close source viewer"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Cited chunk */}
+      <div className="px-4 py-3 border-b border-slate-700/50 flex-shrink-0">
+        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+          <span>Chunk {source.metadata?.chunk_index ?? 'N/A'}</span>
+          <span>•</span>
+          <span className="text-green-400 font-medium">
+            {source.similarity_score ? (source.similarity_score * 100).toFixed(1) : 'N/A'}% match
+          </span>
+        </div>
+        <div className="text-slate-300 text-xs leading-relaxed max-h-32 overflow-y-auto documents-scroll pr-1 bg-yellow-400/5 border border-yellow-400/20 rounded-lg p-2">
+          {source.text || 'No text'}
+        </div>
+      </div>
+
+      {/* Page controls */}
+      {numPages > 0 && (
+        <div className="px-4 py-2 border-b border-slate-700/50 flex items-center justify-between text-xs text-slate-400 flex-shrink-0">
+          <button
+            onClick={() => setPageNumber(p => Math.max(1, p - 1))}
+            disabled={pageNumber <= 1}
+            className="btn-secondary px-2 py-1 rounded-lg disabled:opacity-40"
+          >
+            ‹ Prev
+          </button>
+          <span>
+            {locating ? 'Locating chunk…' : `Page ${pageNumber} of ${numPages}`}
+          </span>
+          <button
+            onClick={() => setPageNumber(p => Math.min(numPages, p + 1))}
+            disabled={pageNumber >= numPages}
+            className="btn-secondary px-2 py-1 rounded-lg disabled:opacity-40"
+          >
+            Next ›
+          </button>
+        </div>
+      )}
+
+      {/* Document */}
+      <div ref={containerRef} className="flex-1 min-h-0 overflow-auto p-4 documents-scroll">
+        {sourceDocument && !isPdf ? (
+          <DocumentPreview document={sourceDocument} />
+        ) : loadError ? (
+          <div className="text-center text-slate-400 text-sm py-8">
+            <p>{loadError}</p>
+            <p className="text-xs text-slate-500 mt-1">The cited text is shown above.</p>
+          </div>
+        ) : !file ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <PdfDocument
+            file={file}
+            onLoadSuccess={handleLoadSuccess}
+            onLoadError={(error) => {
+              console.error('Error rendering PDF:', error);
+              setLoadError('This document could not be rendered.');
+            }}
+            loading={<div className="text-center text-slate-400 text-sm py-8">Loading document…</div>}
+          >
+            <PdfPage
+              pageNumber={pageNumber}
+              width={pageWidth}
+              customTextRenderer={highlightChunk}
+              className="mx-auto shadow-lg"
+            />
+          </PdfDocument>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Document, documentAPI } from '../services/api';
+import { parseUrls } from '../utils/urlList';
+
+type UrlMode = 'single' | 'list' | 'sitemap';
+
+const MAX_URLS = 100;
+
+const MODES: { id: UrlMode; label: string; placeholder: string }[] = [
+  { id: 'single', label: 'URL', placeholder: 'https://wiki.example.com/getting-started' },
+  { id: 'list', label: 'URL list', placeholder: 'One URL per line\nhttps://docs.vendor.com/api\nhttps://docs.vendor.com/auth' },
+  { id: 'sitemap', label: 'Sitemap', placeholder: 'https://docs.vendor.com/sitemap.xml' },
+];
+
+interface UrlIngestFormProps {
+  onDocumentsAdded: (documents: Document[]) => void;
+}
+
+export default function UrlIngestForm({ onDocumentsAdded }: UrlIngestFormProps) {
+  const [mode, setMode] = useState<UrlMode>('single');
+  const [input, setInput] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { urls, invalid } = parseUrls(input);
+
+    if (invalid.length > 0) {
+      setMessage({ type: 'error', text: `Not a valid web address: ${invalid.slice(0, 3).join(', ')}${invalid.length > 3 ? '…' : ''}` });
+      return;
+    }
+    if (urls.length === 0) {
+      setMessage({ type: 'error', text: 'Enter at least one URL' });
+      return;
+    }
+    if (mode !== 'list' && urls.length > 1) {
+      setMessage({ type: 'error', text: 'Enter a single URL, or switch to URL list' });
+      return;
+    }
+    if (urls.length > MAX_URLS) {
+      setMessage({ type: 'error', text: `Add at most ${MAX_URLS} URLs at a time` });
+      return;
+    }
+
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const added = await documentAPI.ingestURLs(urls, { sitemap: mode === 'sitemap' });
+      onDocumentsAdded(added);
+      setInput('');
+      setMessage({
+        type: 'success',
+        text: `${added.length} page${added.length === 1 ? '' : 's'} queued for indexing`,
+      });
+    } catch (error) {
+      console.error('Error ingesting URLs:', error);
+      setMessage({ type: 'error', text: 'Could not add these URLs. Please try again.' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const current = MODES.find(m => m.id === mode)!;
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 sm:mt-8 card rounded-2xl p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h4 className="text-white font-semibold text-sm sm:text-base flex items-center gap-2">
+          <svg className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+          Add from URL
+        </h4>
+        <div className="flex rounded-lg bg-slate-800/60 p-0.5 text-xs">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => { setMode(m.id); setMessage(null); }}
+              className={`px-2 sm:px-3 py-1 rounded-md transition-colors ${
+                mode === m.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'list' ? (
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={current.placeholder}
+          rows={4}
+          className="w-full bg-slate-800/50 text-white border border-slate-600/50 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 placeholder-slate-400 text-sm resize-y"
+        />
+      ) : (
+        <input
+          type="url"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={current.placeholder}
+          className="w-full bg-slate-800/50 text-white border border-slate-600/50 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 placeholder-slate-400 text-sm"
+        />
+      )}
+
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <p className={`text-xs ${message?.type === 'error' ? 'text-red-400' : message ? 'text-green-400' : 'text-slate-500'}`}>
+          {message?.text || (mode === 'sitemap'
+            ? 'Every page listed in the sitemap is added'
+            : 'Pages are fetched and indexed on the server')}
+        </p>
+        <button
+          type="submit"
+          disabled={submitting || !input.trim()}
+          className="btn-primary text-white px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-50 flex-shrink-0"
+        >
+          {submitting ? 'Adding…' : 'Add'}
+        </button>
+      </div>
+    </form>
+  );
+}
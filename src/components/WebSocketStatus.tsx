@@ -1,7 +1,39 @@
 'use client';
 
-// WebSocket real-time features are not yet implemented.
-// This component is a placeholder.
-export default function WebSocketStatus() {
-  return null;
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { ConnectionStatus } from '../services/realtime';
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; dot: string; text: string }> = {
+  connected: { label: 'Live', dot: 'bg-green-400', text: 'text-green-400' },
+  connecting: { label: 'Connecting', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  disconnected: { label: 'Offline', dot: 'bg-slate-500', text: 'text-slate-400' },
+};
+
+// Small pill showing the real-time connection state. Clicking it while the
+// connection is down retries immediately instead of waiting for the backoff.
+export default function WebSocketStatus({ className = '' }: { className?: string }) {
+  const { status, reconnect } = useWebSocket();
+  const style = STATUS_STYLES[status];
+  const canRetry = status === 'reconnecting';
+
+  return (
+    <button
+      type="button"
+      onClick={canRetry ? reconnect : undefined}
+      disabled={!canRetry}
+      className={`flex items-center gap-1.5 px-2 py-1 rounded-lg bg-slate-800/50 text-xs ${style.text} ${
+        canRetry ? 'hover:bg-slate-700/60 cursor-pointer' : 'cursor-default'
+      } ${className}`}
+      title={
+        status === 'connected' ? 'Real-time updates are on'
+          : canRetry ? 'Connection lost — click to retry now'
+          : status === 'connecting' ? 'Connecting to real-time updates'
+          : 'Real-time updates are off'
+      }
+    >
+      <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+      <span className="hidden sm:inline">{style.label}</span>
+    </button>
+  );
 }
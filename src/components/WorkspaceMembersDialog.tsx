@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { Workspace, WorkspaceMember, WorkspaceRole, isAbortError, workspaceAPI } from '../services/api';
+
+interface WorkspaceMembersDialogProps {
+  isOpen: boolean;
+  workspace: Workspace;
+  onClose: () => void;
+}
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const ROLES: WorkspaceRole[] = ['viewer', 'editor', 'owner'];
+
+const selectClass = 'bg-slate-900/60 text-slate-200 border border-slate-600/50 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+// Member list of a workspace. Owners invite people by email and change or revoke
+// their roles; everyone else sees the list and can leave.
+export default function WorkspaceMembersDialog({ isOpen, workspace, onClose }: WorkspaceMembersDialogProps) {
+  const { user } = useAuth();
+  const { refreshWorkspaces } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [busyMemberId, setBusyMemberId] = useState<string | null>(null);
+  const workspaceId = workspace.workspace_id;
+  const isOwner = workspace.role === 'owner';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    workspaceAPI.listMembers(workspaceId, controller.signal)
+      .then(setMembers)
+      .catch(e => {
+        if (isAbortError(e)) return;
+        console.error('Error loading workspace members:', e);
+        setError('Could not load the members of this workspace.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [isOpen, workspaceId]);
+
+  if (!isOpen) return null;
+
+  // Member counts and the user's own role live in the workspace list
+  const refreshList = () => {
+    refreshWorkspaces().catch(e => console.error('Error refreshing workspaces:', e));
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    if (!email || inviting) return;
+    if (members.some(m => m.email.toLowerCase() === email)) {
+      setError(`${email} is already a member.`);
+      return;
+    }
+    setInviting(true);
+    setError(null);
+    try {
+      const member = await workspaceAPI.inviteMember(workspaceId, email, inviteRole);
+      setMembers(prev => [...prev, member]);
+      setInviteEmail('');
+      refreshList();
+    } catch (err) {
+      console.error('Error inviting member:', err);
+      setError('Could not send the invite. Check the address and try again.');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    setBusyMemberId(member.member_id);
+    setError(null);
+    try {
+      await workspaceAPI.updateMemberRole(workspaceId, member.member_id, role);
+      setMembers(prev => prev.map(m => m.member_id === member.member_id ? { ...m, role } : m));
+      if (member.email === user?.email) refreshList();
+    } catch (err) {
+      console.error('Error updating member role:', err);
+      // The server refuses to leave a workspace without an owner
+      setError(`Could not change the role of ${member.email}.`);
+    } finally {
+      setBusyMemberId(null);
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    setBusyMemberId(member.member_id);
+    setError(null);
+    try {
+      await workspaceAPI.removeMember(workspaceId, member.member_id);
+      setMembers(prev => prev.filter(m => m.member_id !== member.member_id));
+      // Leaving drops the user back into their personal space
+      refreshList();
+      if (member.email === user?.email) onClose();
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError(`Could not remove ${member.email}.`);
+    } finally {
+      setBusyMemberId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-slate-800 p-6 rounded-2xl shadow-2xl w-full max-w-lg mx-4 border border-slate-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold gradient-text truncate">{workspace.name}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors flex-shrink-0">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-slate-400 mb-4">
+          Members share this workspace&apos;s document library. Viewers can ask questions, editors can also
+          upload and remove documents, and owners manage members.
+        </p>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex items-center gap-2 mb-4">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              className="flex-1 min-w-0 bg-slate-900/60 text-white border border-slate-600/50 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-slate-500"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+              className={`${selectClass} py-2 text-sm`}
+            >
+              {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={!inviteEmail.trim() || inviting}
+              className="btn-primary px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex-shrink-0"
+            >
+              Invite
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="mb-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-1.5">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            members.map(member => {
+              const isSelf = member.email === user?.email;
+              const busy = busyMemberId === member.member_id;
+              return (
+                <div key={member.member_id} className="flex items-center gap-2 p-2.5 rounded-lg border border-slate-700/60 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-slate-200 truncate">
+                      {member.email}
+                      {isSelf && <span className="text-slate-500"> (you)</span>}
+                    </p>
+                    {member.status === 'invited' && <p className="text-xs text-yellow-400/90">Invite pending</p>}
+                  </div>
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                      disabled={busy}
+                      className={`${selectClass} disabled:opacity-50`}
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-slate-400 flex-shrink-0">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      disabled={busy}
+                      className="px-2 py-0.5 rounded text-xs text-red-400 hover:bg-red-500/10 disabled:opacity-50 transition-colors flex-shrink-0"
+                    >
+                      {isSelf ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
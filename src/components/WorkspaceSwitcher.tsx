@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { isAbortError } from '../services/api';
+import WorkspaceMembersDialog, { ROLE_LABELS } from './WorkspaceMembersDialog';
+
+// Dropdown in the sidebar header for moving between the personal space and team
+// workspaces, creating a workspace and opening its member list
+export default function WorkspaceSwitcher() {
+  const { workspaces, activeWorkspace, activeWorkspaceId, switchWorkspace, createWorkspace, refreshWorkspaces } = useWorkspace();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showMembers, setShowMembers] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    refreshWorkspaces(controller.signal).catch(e => {
+      if (!isAbortError(e)) console.error('Error loading workspaces:', e);
+    });
+    return () => controller.abort();
+  }, [refreshWorkspaces]);
+
+  // Close the dropdown on any click outside it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const select = (workspaceId: string | null) => {
+    setOpen(false);
+    if (workspaceId !== activeWorkspaceId) switchWorkspace(workspaceId);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const workspace = await createWorkspace(name);
+      setNewName('');
+      select(workspace.workspace_id);
+    } catch (err) {
+      console.error('Error creating workspace:', err);
+      setError('Could not create the workspace.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const itemClass = (active: boolean) =>
+    `w-full text-left px-3 py-1.5 text-sm flex items-center justify-between gap-2 transition-colors ${
+      active ? 'text-blue-300 bg-blue-500/10' : 'text-slate-300 hover:bg-slate-700/60 hover:text-white'
+    }`;
+
+  return (
+    <div ref={containerRef} className="relative flex-shrink-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 max-w-[9rem] px-2 py-1 rounded-lg bg-slate-800/60 border border-slate-600/50 text-xs text-slate-200 hover:text-white hover:border-slate-500 transition-colors"
+        title="Switch workspace"
+      >
+        <span className="truncate">{activeWorkspace?.name || (activeWorkspaceId ? 'Workspace' : 'Personal')}</span>
+        <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-60 py-1 rounded-lg bg-slate-900/95 border border-slate-700/60 shadow-xl animate-fadeIn">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wide text-slate-500">Workspaces</p>
+          <button onClick={() => select(null)} className={itemClass(!activeWorkspaceId)}>
+            <span className="truncate">Personal</span>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">Only you</span>
+          </button>
+          {workspaces.map(workspace => (
+            <button
+              key={workspace.workspace_id}
+              onClick={() => select(workspace.workspace_id)}
+              className={itemClass(workspace.workspace_id === activeWorkspaceId)}
+            >
+              <span className="truncate">{workspace.name}</span>
+              <span className="text-[10px] text-slate-500 flex-shrink-0">{ROLE_LABELS[workspace.role]}</span>
+            </button>
+          ))}
+
+          {activeWorkspace && (
+            <button
+              onClick={() => { setOpen(false); setShowMembers(true); }}
+              className="w-full text-left px-3 py-1.5 mt-1 border-t border-slate-700/60 text-sm text-slate-300 hover:bg-slate-700/60 hover:text-white transition-colors"
+            >
+              Members ({activeWorkspace.member_count})
+            </button>
+          )}
+
+          <form onSubmit={handleCreate} className="px-3 pt-2 pb-1 mt-1 border-t border-slate-700/60 flex items-center gap-1.5">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New workspace"
+              maxLength={60}
+              className="flex-1 min-w-0 bg-slate-800 text-white border border-slate-600/50 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder-slate-500"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim() || creating}
+              className="btn-secondary px-2 py-1 rounded-md text-xs disabled:opacity-50 flex-shrink-0"
+            >
+              Create
+            </button>
+          </form>
+          {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+
+      {activeWorkspace && (
+        <WorkspaceMembersDialog
+          isOpen={showMembers}
+          workspace={activeWorkspace}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,17 @@
 
 import React from 'react';
 import { AuthProvider } from './AuthProvider';
+import { WebSocketProvider } from './WebSocketContext';
+import { WorkspaceProvider } from './WorkspaceContext';
 
-// Composes all client-side providers.
-// WebSocketProvider can be added here when real-time features are implemented.
+// Composes all client-side providers. WorkspaceProvider needs the signed-in user, and
+// WebSocketProvider needs both, so each sits inside the one before it.
 export const ClientProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  return <AuthProvider>{children}</AuthProvider>;
+  return (
+    <AuthProvider>
+      <WorkspaceProvider>
+        <WebSocketProvider>{children}</WebSocketProvider>
+      </WorkspaceProvider>
+    </AuthProvider>
+  );
 };
@@ -1,20 +1,88 @@
 'use client';
 
-import React, { createContext, useContext } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useWorkspace } from './WorkspaceContext';
+import {
+  ConnectionStatus,
+  RealtimeClient,
+  RealtimeEventType,
+  RealtimeHandler,
+  REALTIME_ENABLED,
+  REALTIME_URL,
+} from '../services/realtime';
 
 interface WebSocketContextType {
+  status: ConnectionStatus;
   isConnected: boolean;
+  subscribe: <K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>) => () => void;
+  send: (type: string, payload?: unknown) => boolean;
+  reconnect: () => void;
 }
 
-const WebSocketContext = createContext<WebSocketContextType>({ isConnected: false });
+const WebSocketContext = createContext<WebSocketContextType>({
+  status: 'disconnected',
+  isConnected: false,
+  subscribe: () => () => {},
+  send: () => false,
+  reconnect: () => {},
+});
 
 export const useWebSocket = () => useContext(WebSocketContext);
 
+// Keeps one authenticated real-time connection open while a user is signed in,
+// receiving the events of the active workspace. Must be rendered inside WorkspaceProvider.
 export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // WebSocket support is not yet implemented.
-  // This provider is a placeholder for future real-time features.
+  const { user, getToken } = useAuth();
+  const [client, setClient] = useState<RealtimeClient | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+  const { activeWorkspaceId } = useWorkspace();
+  const userId = user?.uid;
+  // getToken is recreated on every AuthProvider render; the client only needs the latest
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  // ── one client per signed-in user and workspace ────────────────────────────
+  useEffect(() => {
+    if (!REALTIME_ENABLED || !userId) return;
+
+    const realtime = new RealtimeClient({
+      url: REALTIME_URL,
+      getToken: () => getTokenRef.current(),
+      workspaceId: activeWorkspaceId,
+    });
+    const unsubscribe = realtime.onStatusChange(setStatus);
+    setClient(realtime);
+    realtime.connect();
+
+    // Reconnect right away instead of waiting out the backoff when the network returns
+    const handleOnline = () => realtime.reconnectNow();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      unsubscribe();
+      realtime.disconnect();
+      setClient(null);
+      setStatus('disconnected');
+    };
+  }, [userId, activeWorkspaceId]);
+
+  // Stable per client, so subscribers don't resubscribe on every status change
+  const actions = useMemo<Pick<WebSocketContextType, 'subscribe' | 'send' | 'reconnect'>>(() => ({
+    subscribe: (type, handler) => client?.subscribe(type, handler) ?? (() => {}),
+    send: (type, payload) => client?.send(type, payload) ?? false,
+    reconnect: () => client?.reconnectNow(),
+  }), [client]);
+
+  const value = useMemo<WebSocketContextType>(() => ({
+    ...actions,
+    status,
+    isConnected: status === 'connected',
+  }), [actions, status]);
+
   return (
-    <WebSocketContext.Provider value={{ isConnected: false }}>
+    <WebSocketContext.Provider value={value}>
       {children}
     </WebSocketContext.Provider>
   );
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { Workspace, WorkspaceRole, setActiveWorkspaceId, workspaceAPI } from '../services/api';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null;  // null: the personal space
+  activeWorkspaceId: string | null;
+  role: WorkspaceRole;                // always 'owner' in the personal space
+  canEditDocuments: boolean;
+  switchWorkspace: (workspaceId: string | null) => void;
+  createWorkspace: (name: string) => Promise<Workspace>;
+  refreshWorkspaces: (signal?: AbortSignal) => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType>({
+  workspaces: [],
+  activeWorkspace: null,
+  activeWorkspaceId: null,
+  role: 'owner',
+  canEditDocuments: true,
+  switchWorkspace: () => {},
+  createWorkspace: () => Promise.reject(new Error('WorkspaceProvider is missing')),
+  refreshWorkspaces: async () => {},
+});
+
+export const useWorkspace = () => useContext(WorkspaceContext);
+
+const storageKey = (userId: string) => `rag-chat-workspace:${userId}`;
+
+// Tracks the active team workspace, remembered per user in this browser. Everything
+// below is remounted on a switch, so pages reload their data from the new workspace
+// with the same code that loads it on first visit. Must be rendered inside AuthProvider.
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.uid;
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveId] = useState<string | null>(null);
+  const activeIdRef = useRef(activeWorkspaceId);
+  activeIdRef.current = activeWorkspaceId;
+
+  // The API module reads the id for every request, so it is updated before the
+  // remounted tree starts loading
+  const applyWorkspace = useCallback((workspaceId: string | null) => {
+    setActiveWorkspaceId(workspaceId);
+    setActiveId(workspaceId);
+    if (!userId) return;
+    if (workspaceId) localStorage.setItem(storageKey(userId), workspaceId);
+    else localStorage.removeItem(storageKey(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    setWorkspaces([]);
+    const stored = userId ? localStorage.getItem(storageKey(userId)) : null;
+    setActiveWorkspaceId(stored);
+    setActiveId(stored);
+  }, [userId]);
+
+  // Called by the switcher once the API has a token. Falls back to the personal space
+  // if the remembered workspace is gone or the user was removed from it.
+  const refreshWorkspaces = useCallback(async (signal?: AbortSignal) => {
+    const list = await workspaceAPI.listWorkspaces(signal);
+    setWorkspaces(list);
+    const current = activeIdRef.current;
+    if (current && !list.some(w => w.workspace_id === current)) applyWorkspace(null);
+  }, [applyWorkspace]);
+
+  const createWorkspace = useCallback(async (name: string) => {
+    const workspace = await workspaceAPI.createWorkspace(name);
+    setWorkspaces(prev => [...prev, workspace]);
+    return workspace;
+  }, []);
+
+  const value = useMemo<WorkspaceContextType>(() => {
+    const activeWorkspace = workspaces.find(w => w.workspace_id === activeWorkspaceId) || null;
+    // Until the list arrives an active workspace's role is unknown; assume the least access
+    const role: WorkspaceRole = !activeWorkspaceId ? 'owner' : activeWorkspace?.role || 'viewer';
+    return {
+      workspaces,
+      activeWorkspace,
+      activeWorkspaceId,
+      role,
+      canEditDocuments: role !== 'viewer',
+      switchWorkspace: applyWorkspace,
+      createWorkspace,
+      refreshWorkspaces,
+    };
+  }, [workspaces, activeWorkspaceId, applyWorkspace, createWorkspace, refreshWorkspaces]);
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      <React.Fragment key={activeWorkspaceId ?? 'personal'}>{children}</React.Fragment>
+    </WorkspaceContext.Provider>
+  );
+};
+
+export default WorkspaceContext;
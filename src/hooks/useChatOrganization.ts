@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { Chat, ChatFolder, ChatTag, SessionOrganization, chatAPI } from '../services/api';
+import { publishSync } from '../services/syncChannel';
+
+export interface ChatOrganization {
+  folders: ChatFolder[];
+  tags: ChatTag[];
+  organizeChat: (chat: Chat, changes: SessionOrganization) => Promise<void>;
+  createFolder: (name: string) => Promise<ChatFolder | null>;
+  renameFolder: (folderId: string, name: string) => Promise<void>;
+  deleteFolder: (folderId: string) => Promise<void>;
+  createTag: (name: string, color: string) => Promise<ChatTag | null>;
+  deleteTag: (tagId: string) => Promise<void>;
+}
+
+// Folders, pins and tags for the sidebar. The chat list itself stays with the
+// caller, so changes to sessions go through its `setChats`.
+export function useChatOrganization(setChats: React.Dispatch<React.SetStateAction<Chat[]>>) {
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+  const [tags, setTags] = useState<ChatTag[]>([]);
+
+  // Called with the rest of the sidebar data. Servers without folders or tags
+  // leave both lists empty and the sidebar falls back to a flat list.
+  const loadOrganization = useCallback(async (signal?: AbortSignal) => {
+    const [foldersResult, tagsResult] = await Promise.allSettled([
+      chatAPI.listFolders(signal),
+      chatAPI.listTags(signal),
+    ]);
+    if (signal?.aborted) return;
+    setFolders(foldersResult.status === 'fulfilled' ? foldersResult.value : []);
+    setTags(tagsResult.status === 'fulfilled' ? tagsResult.value : []);
+  }, []);
+
+  // Applied optimistically so drag-and-drop feels instant; reverted if the save fails
+  const organizeChat = useCallback(async (chat: Chat, changes: SessionOrganization) => {
+    const apply = (fields: SessionOrganization) =>
+      setChats(prev => prev.map(c => c.session_id === chat.session_id ? { ...c, ...fields } : c));
+
+    apply(changes);
+    try {
+      await chatAPI.updateSessionOrganization(chat.session_id, changes);
+      publishSync('session.updated', { session: { ...chat, ...changes } });
+    } catch (error) {
+      console.error('Error organizing chat:', error);
+      apply({ pinned: chat.pinned, folder_id: chat.folder_id, tag_ids: chat.tag_ids });
+    }
+  }, [setChats]);
+
+  const createFolder = useCallback(async (name: string) => {
+    try {
+      const folder = await chatAPI.createFolder(name);
+      setFolders(prev => [...prev, folder]);
+      return folder;
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      return null;
+    }
+  }, []);
+
+  const renameFolder = useCallback(async (folderId: string, name: string) => {
+    try {
+      await chatAPI.renameFolder(folderId, name);
+      setFolders(prev => prev.map(f => f.folder_id === folderId ? { ...f, name } : f));
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+    }
+  }, []);
+
+  const deleteFolder = useCallback(async (folderId: string) => {
+    try {
+      await chatAPI.deleteFolder(folderId);
+      setFolders(prev => prev.filter(f => f.folder_id !== folderId));
+      setChats(prev => prev.map(c => c.folder_id === folderId ? { ...c, folder_id: null } : c));
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+    }
+  }, [setChats]);
+
+  const createTag = useCallback(async (name: string, color: string) => {
+    try {
+      const tag = await chatAPI.createTag(name, color);
+      setTags(prev => [...prev, tag]);
+      return tag;
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      return null;
+    }
+  }, []);
+
+  const deleteTag = useCallback(async (tagId: string) => {
+    try {
+      await chatAPI.deleteTag(tagId);
+      setTags(prev => prev.filter(t => t.tag_id !== tagId));
+      setChats(prev => prev.map(c => c.tag_ids?.includes(tagId)
+        ? { ...c, tag_ids: c.tag_ids.filter(id => id !== tagId) }
+        : c));
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+    }
+  }, [setChats]);
+
+  const organization: ChatOrganization = {
+    folders,
+    tags,
+    organizeChat,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    createTag,
+    deleteTag,
+  };
+
+  return { organization, loadOrganization };
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Document, IngestionState, documentAPI, isAbortError, isIngestionFinished } from '../services/api';
+import { useRealTimeUpdates } from './useRealTimeUpdates';
+
+const POLL_INTERVAL_MS = 2000;
+// While connected the server pushes status changes; polling is only a safety net
+const CONNECTED_POLL_INTERVAL_MS = 15000;
+// Status requests in flight at once. A large upload can leave a hundred documents
+// pending; a poll works through them a few at a time instead of all together.
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Tracks the ingestion status of every document that is still being processed and
+// reports changes through `onChange` until each one is ready or has failed. Uses
+// `document.status` push events when the real-time connection is up, polling otherwise.
+export function useIngestionStatus(
+  documents: Document[],
+  onChange: (fileId: string, state: IngestionState) => void,
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const { isConnected } = useRealTimeUpdates({
+    'document.status': ({ document_id, status, error }) => onChangeRef.current(document_id, { status, error }),
+  });
+
+  // Read on every poll, so documents finishing or arriving don't restart the timer
+  const pendingIdsRef = useRef<string[]>([]);
+  pendingIdsRef.current = documents
+    .filter(doc => doc.file_id && !isIngestionFinished(doc.status))
+    .map(doc => doc.file_id);
+  const hasPending = pendingIdsRef.current.length > 0;
+
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const controller = new AbortController();
+    let polling = false;
+
+    const checkStatus = async (id: string) => {
+      try {
+        const state = await documentAPI.getIngestionStatus(id, controller.signal);
+        if (!controller.signal.aborted) onChangeRef.current(id, state);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        // Transient errors are retried on the next poll
+        console.error('Error checking ingestion status:', error);
+      }
+    };
+
+    const poll = async () => {
+      // Skip a tick rather than stacking requests when the server is slow
+      if (polling) return;
+      polling = true;
+      const queue = [...pendingIdsRef.current];
+      const worker = async () => {
+        for (let id = queue.shift(); id && !controller.signal.aborted; id = queue.shift()) {
+          await checkStatus(id);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, queue.length) }, worker));
+      polling = false;
+    };
+
+    const timer = setInterval(poll, isConnected ? CONNECTED_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [hasPending, isConnected]);
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { subscribeSync } from '../services/syncChannel';
+import { RealtimeHandlers, useRealTimeUpdates } from './useRealTimeUpdates';
+
+// Receives session and document changes made elsewhere: server push events from other
+// devices and tabs, plus BroadcastChannel messages from tabs in this browser. The same
+// change can arrive through both, so handlers must be idempotent.
+export function useLiveSync(handlers: RealtimeHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const connection = useRealTimeUpdates(handlers);
+
+  useEffect(() => subscribeSync(({ type, payload }) => {
+    const handler = handlersRef.current[type] as ((payload: unknown) => void) | undefined;
+    handler?.(payload);
+  }), []);
+
+  return connection;
+}
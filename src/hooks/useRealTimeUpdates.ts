@@ -1,5 +1,33 @@
-// Real-time update hook — placeholder for future WebSocket integration.
-// Currently a no-op.
-export function useRealTimeUpdates() {
-  return { isConnected: false };
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { RealtimeEventMap, RealtimeEventType } from '../services/realtime';
+
+export type RealtimeHandlers = {
+  [K in RealtimeEventType]?: (payload: RealtimeEventMap[K]) => void;
+};
+
+// Subscribes to server-pushed events for the lifetime of the component. Handlers can be
+// inline functions; the latest ones are always called without resubscribing.
+export function useRealTimeUpdates(handlers: RealtimeHandlers = {}) {
+  const { status, isConnected, subscribe } = useWebSocket();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Only resubscribe when the set of event types changes
+  const types = (Object.keys(handlers) as RealtimeEventType[]).sort().join(',');
+
+  useEffect(() => {
+    if (!types) return;
+    const unsubscribes = (types.split(',') as RealtimeEventType[]).map(type =>
+      subscribe(type, (payload) => {
+        const handler = handlersRef.current[type] as ((payload: unknown) => void) | undefined;
+        handler?.(payload);
+      })
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [types, subscribe]);
+
+  return { status, isConnected };
 }
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Document, documentAPI, isAbortError } from '../services/api';
+
+export type UploadStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  path: string;        // path inside a dropped folder, or just the file name
+  status: UploadStatus;
+  loaded: number;      // bytes sent
+  total: number;
+  error?: string;
+  document?: Document;
+}
+
+export interface UploadSummary {
+  done: number;
+  failed: number;
+  cancelled: number;
+}
+
+const MAX_CONCURRENT_UPLOADS = 3;
+export const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+
+const isActive = (item: UploadItem) => item.status === 'uploading' || item.status === 'processing';
+
+// Uploads files with bounded concurrency and tracks per-file progress.
+// `onUploaded` fires for each finished file, `onSettled` once the queue drains.
+export function useUploadQueue({
+  onUploaded,
+  onSettled,
+}: {
+  onUploaded?: (document: Document) => void;
+  onSettled?: (summary: UploadSummary) => void;
+} = {}) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const started = useRef(new Set<string>());
+
+  // Latest callbacks, so uploads already in flight report to the current ones
+  const callbacks = useRef({ onUploaded, onSettled });
+  callbacks.current = { onUploaded, onSettled };
+
+  const update = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  }, []);
+
+  const startUpload = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    update(item.id, { status: 'uploading', loaded: 0, error: undefined });
+
+    try {
+      const document = await documentAPI.uploadDocument(item.file, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => {
+          // Once every byte is sent we're waiting for the server to accept the file
+          update(item.id, { loaded, total, status: loaded >= total ? 'processing' : 'uploading' });
+        },
+      });
+      update(item.id, { status: 'done', loaded: item.total, document });
+      callbacks.current.onUploaded?.(document);
+    } catch (error) {
+      if (isAbortError(error)) {
+        update(item.id, { status: 'cancelled' });
+      } else {
+        console.error('Error uploading document:', item.path, error);
+        update(item.id, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+      started.current.delete(item.id);
+    }
+  }, [update]);
+
+  // ── start queued uploads whenever a slot frees up ──────────────────────────
+  useEffect(() => {
+    // `started` holds every upload in flight, including ones not yet marked uploading
+    let active = started.current.size;
+    for (const item of items) {
+      if (active >= MAX_CONCURRENT_UPLOADS) break;
+      if (item.status !== 'queued' || started.current.has(item.id)) continue;
+      started.current.add(item.id);
+      active++;
+      startUpload(item);
+    }
+  }, [items, startUpload]);
+
+  // ── report once everything in the batch has finished ───────────────────────
+  const wasBusy = useRef(false);
+  useEffect(() => {
+    const busy = items.some(item => item.status === 'queued' || isActive(item));
+    if (wasBusy.current && !busy) {
+      callbacks.current.onSettled?.({
+        done: items.filter(i => i.status === 'done').length,
+        failed: items.filter(i => i.status === 'failed').length,
+        cancelled: items.filter(i => i.status === 'cancelled').length,
+      });
+    }
+    wasBusy.current = busy;
+  }, [items]);
+
+  // Abort everything still running when the upload view goes away
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  const addFiles = useCallback((files: { file: File; path?: string }[]) => {
+    const added: UploadItem[] = files.map(({ file, path }) => {
+      const tooLarge = file.size > MAX_FILE_SIZE_BYTES;
+      return {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+        file,
+        path: path || file.name,
+        status: tooLarge ? 'failed' : 'queued',
+        loaded: 0,
+        total: file.size,
+        ...(tooLarge ? { error: 'File is larger than 50MB' } : {}),
+      };
+    });
+    setItems(prev => [...prev, ...added]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      update(id, { status: 'cancelled' });
+    }
+  }, [update]);
+
+  const cancelAll = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    setItems(prev => prev.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && item.file.size <= MAX_FILE_SIZE_BYTES
+        ? { ...item, status: 'queued', loaded: 0, error: undefined }
+        : item
+    ));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status === 'queued' || isActive(item)));
+  }, []);
+
+  return { items, addFiles, cancel, cancelAll, retry, clearFinished };
+}
@@ -1,3 +1,5 @@
+import { detectDocumentType } from '../utils/documentTypes';
+
 // Determine API base URL. Prefer `NEXT_PUBLIC_API_URL` when set (e.g., for devtunnels).
 // When not set and running in the browser on a remote host (devtunnel),
 // default to the same hostname with backend port 8000 so requests reach the dev machine.
@@ -33,6 +35,16 @@ export const setAuthTokenGetter = (tokenGetter: () => Promise<string | null>) =>
   getAuthToken = tokenGetter;
 };
 
+// Team workspace the app is working in; null is the user's personal space. Every
+// authenticated request names it so the server scopes documents and chats to it.
+let activeWorkspaceId: string | null = null;
+
+export const setActiveWorkspaceId = (workspaceId: string | null) => {
+  activeWorkspaceId = workspaceId;
+};
+
+export const getActiveWorkspaceId = () => activeWorkspaceId;
+
 // Helper function to create authenticated headers
 export const getAuthHeaders = async (): Promise<Record<string, string>> => {
   const headers: Record<string, string> = {
@@ -57,18 +69,46 @@ export const getAuthHeaders = async (): Promise<Record<string, string>> => {
     console.error('❌ Error getting auth token:', error);
     // Continue with request even if auth fails
   }
+
+  if (activeWorkspaceId) {
+    headers['X-Workspace-Id'] = activeWorkspaceId;
+  }
   
   return headers;
 };
 
+// True when a request was cancelled through its AbortSignal.
+// Callers use this to tell a user-initiated stop apart from a real failure.
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Server-side ingestion pipeline stages, in order. `ready` and `failed` are final.
+export type IngestionStatus = 'queued' | 'parsing' | 'chunking' | 'embedding' | 'ready' | 'failed';
+
+export interface IngestionState {
+  status: IngestionStatus;
+  error?: string;
+}
+
 export interface Document {
   file_id: string;
   filename: string;
   file_type: string;
   size_bytes: number;
   upload_time: string;
+  // Missing for documents ingested before status tracking existed; those are ready
+  status?: IngestionStatus;
+  status_error?: string;
+  // Set for documents ingested from the web; those can be re-crawled
+  source_url?: string;
+  last_crawled_at?: string;
 }
 
+export const isDocumentReady = (doc: Document): boolean => !doc.status || doc.status === 'ready';
+
+export const isIngestionFinished = (status?: IngestionStatus): boolean =>
+  !status || status === 'ready' || status === 'failed';
+
 export interface Chat {
   session_id: string;
   title: string;
@@ -78,6 +118,84 @@ export interface Chat {
   message_count?: number;
   document_ids?: string[];
   last_used_documents?: string[];
+  pinned?: boolean;
+  folder_id?: string | null;  // null or missing: not in a folder
+  tag_ids?: string[];
+  retrieval_settings?: RetrievalSettings;
+}
+
+// User-defined group of chats, e.g. one per client engagement
+export interface ChatFolder {
+  folder_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface ChatTag {
+  tag_id: string;
+  name: string;
+  color: string;  // a key of TAG_COLORS in utils/tagColors
+}
+
+// How the backend matches chunks to a query: embeddings, keywords or both
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+// Retrieval and generation settings a session's questions are asked with
+export interface RetrievalSettings {
+  top_k: number;
+  min_score: number;     // chunks with a lower similarity_score are left out; 0 keeps all
+  search_mode: SearchMode;
+  rerank: boolean;
+  model: string | null;  // null: the backend's default model
+  temperature: number;
+}
+
+// The fields of a session that organizing it in the sidebar can change
+export type SessionOrganization = Partial<Pick<Chat, 'pinned' | 'folder_id' | 'tag_ids'>>;
+
+// What a member can do in a workspace: viewers query and chat, editors also manage
+// the document library, owners also manage members
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  workspace_id: string;
+  name: string;
+  role: WorkspaceRole;  // the current user's role
+  member_count: number;
+  created_at: string;
+}
+
+export interface WorkspaceMember {
+  member_id: string;
+  email: string;
+  role: WorkspaceRole;
+  status: 'active' | 'invited';  // invited: hasn't signed in to accept yet
+}
+
+// A read-only snapshot of a session that anyone with the link can open
+export interface SharedLink {
+  share_id: string;
+  session_id: string;
+  title: string;            // session title when the link was created
+  created_at: string;
+  expires_at: string | null;  // null: never expires
+  message_count: number;
+}
+
+// What the public /share/[id] page renders
+export interface SharedConversation {
+  share: SharedLink;
+  messages: Message[];
+}
+
+// One message that matched a history search, with the matching passage
+export interface MessageSearchHit {
+  session_id: string;
+  session_title: string;
+  message_id: string;
+  role: 'user' | 'assistant';
+  snippet: string;
+  timestamp: string;
 }
 
 export interface Message {
@@ -86,6 +204,47 @@ export interface Message {
   role: 'user' | 'assistant';
   timestamp: string;
   sources?: Source[];
+  stopped?: boolean;  // generation was cancelled before completion; content is partial
+  variants?: MessageVariant[];  // every version of this message, including the shown one
+  variantIndex?: number;        // which entry of `variants` is shown
+  model_used?: string;          // assistant messages: the LLM that wrote the shown version
+  feedback?: MessageFeedback;   // assistant messages: the user's rating, if any
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+// Why an answer was rated down; labels are in utils/feedbackReasons
+export type FeedbackReason = 'wrong' | 'incomplete' | 'bad_citation' | 'irrelevant_sources';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reasons: FeedbackReason[];  // only for 'down'
+  comment: string;
+}
+
+// A rated answer as stored for review, with what it was generated from
+export interface FeedbackEntry extends MessageFeedback {
+  feedback_id: string;
+  session_id: string;
+  message_id: string;
+  query: string;
+  answer: string;
+  sources: Source[];
+  model_used: string | null;
+  user_email?: string;
+  created_at: string;
+}
+
+// One version of a message produced by regenerate (assistant) or edit (user).
+export interface MessageVariant {
+  content: string;
+  timestamp: string;
+  sources?: Source[];
+  stopped?: boolean;
+  model_used?: string;
+  feedback?: MessageFeedback;  // a rating belongs to the version it was given for
+  // Edited user messages only: the conversation that followed this version
+  replies?: Message[];
 }
 
 export interface Source {
@@ -96,9 +255,45 @@ export interface Source {
     filename: string;
     page?: number;
     chunk_index: number;
+    file_id?: string;  // id of the originating document, when the backend provides it
   };
 }
 
+// A prior turn sent along with a query so follow-up questions keep their context.
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Extra, optional inputs for the LLM-backed RAG endpoints.
+export interface RagRequestOptions {
+  signal?: AbortSignal;
+  history?: HistoryTurn[];
+  // Ask the backend to rewrite the query into a standalone question using `history`
+  condenseQuery?: boolean;
+  // Session retrieval settings other than top_k, which is passed on its own.
+  // Missing fields fall back to the server defaults.
+  retrieval?: Partial<Omit<RetrievalSettings, 'top_k'>>;
+}
+
+const buildRetrievalParams = (retrieval: RagRequestOptions['retrieval'] = {}) => ({
+  ...(retrieval.min_score ? { min_score: retrieval.min_score } : {}),
+  ...(retrieval.search_mode ? { search_mode: retrieval.search_mode } : {}),
+  ...(retrieval.rerank !== undefined ? { rerank: retrieval.rerank } : {}),
+});
+
+// Request body shared by /rag/search-llm and /rag/search-llm-stream
+const buildLLMRequestBody = (query: string, documentIds: string[] | undefined, topK: number, options: RagRequestOptions) => ({
+  query,
+  document_ids: documentIds,
+  top_k: topK,
+  ...buildRetrievalParams(options.retrieval),
+  ...(options.retrieval?.model ? { model: options.retrieval.model } : {}),
+  ...(options.retrieval?.temperature !== undefined ? { temperature: options.retrieval.temperature } : {}),
+  ...(options.history && options.history.length > 0 ? { history: options.history } : {}),
+  ...(options.condenseQuery ? { condense_query: true } : {}),
+});
+
 export interface SearchResponse {
   response: string;  // Changed from 'answer' to 'response' to match backend
   sources: Source[];
@@ -117,49 +312,103 @@ export interface SearchResponse {
   query?: string;
 }
 
+export interface UploadOptions {
+  signal?: AbortSignal;
+  // Bytes sent so far; reaches `total` once the file is on the server and processing starts
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// fetch() can't report upload progress, so file uploads go through XMLHttpRequest.
+// Rejects with an AbortError when the signal fires, like fetch does.
+const postFormWithProgress = (
+  url: string,
+  formData: FormData,
+  headers: Record<string, string>,
+  { signal, onProgress }: UploadOptions,
+): Promise<{ document_id?: string; file_type?: string; status?: IngestionStatus }> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Upload aborted', 'AbortError'));
+    return;
+  }
+
+  const xhr = new XMLHttpRequest();
+  xhr.open('POST', url);
+  Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+  xhr.upload.onprogress = (e) => {
+    if (e.lengthComputable) onProgress?.(e.loaded, e.total);
+  };
+  xhr.onload = () => {
+    if (xhr.status >= 200 && xhr.status < 300) {
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        resolve({});
+      }
+    } else {
+      reject(new Error(`Failed to upload document: ${xhr.status} - ${xhr.responseText}`));
+    }
+  };
+  xhr.onerror = () => reject(new Error('Network error while uploading document'));
+  xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+  signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+  xhr.send(formData);
+});
+
+interface WebDocumentResponse {
+  document_id: string;
+  url: string;
+  title?: string;
+  file_type?: string;
+  size_bytes?: number;
+  status?: IngestionStatus;
+}
+
+const mapWebDocument = (doc: WebDocumentResponse): Document => ({
+  file_id: doc.document_id,
+  filename: doc.title || doc.url,
+  file_type: doc.file_type || 'html',
+  size_bytes: doc.size_bytes || 0,
+  upload_time: new Date().toISOString(),
+  status: doc.status || 'queued',
+  source_url: doc.url,
+  last_crawled_at: new Date().toISOString(),
+});
+
 // Document Management API (User-Isolated)
 export const documentAPI = {
-  uploadPDF: async (file: File): Promise<Document> => {
+  // Any format in utils/documentTypes; the server picks the parser from the file type
+  uploadDocument: async (file: File, options: UploadOptions = {}): Promise<Document> => {
     const formData = new FormData();
     formData.append('file', file);
     
     // Get auth headers but exclude Content-Type for FormData
-    const authHeaders = await getAuthHeaders();
-    const headers: Record<string, string> = {};
-    if (authHeaders['Authorization']) {
-      headers['Authorization'] = authHeaders['Authorization'];
-    }
-    
-    const response = await fetch(`${API_BASE_URL}/rag/process-document`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to upload document: ${response.status} - ${errorText}`);
-    }
+    const headers = await getAuthHeaders();
+    delete headers['Content-Type'];
     
-    const result = await response.json();
+    // The only ingestion entry point: the server queues the file and returns its id straight
+    // away, then parses, chunks and embeds it in the background (see getIngestionStatus)
+    const result = await postFormWithProgress(`${API_BASE_URL}/rag/process-document`, formData, headers, options);
     
     // Convert the RAG response to Document format
     return {
       file_id: result.document_id || '',
       filename: file.name,
-      file_type: 'pdf',
+      file_type: result.file_type || detectDocumentType(file.name, file.type) || 'unknown',
       size_bytes: file.size,
-      upload_time: new Date().toISOString()
+      upload_time: new Date().toISOString(),
+      status: result.status || 'queued',
     };
   },
 
-  listDocuments: async (): Promise<Document[]> => {
+  listDocuments: async (signal?: AbortSignal): Promise<Document[]> => {
     try {
       console.log('🔍 Fetching user documents from:', `${API_BASE_URL}/documents/list`);
       const headers = await getAuthHeaders();
       console.log('🔐 Auth headers prepared for documents request');
       
-      const response = await fetch(`${API_BASE_URL}/documents/list`, { headers });
+      const response = await fetch(`${API_BASE_URL}/documents/list`, { headers, signal });
       console.log('📡 Documents response status:', response.status);
       
       if (!response.ok) {
@@ -183,30 +432,113 @@ export const documentAPI = {
         return result.documents.map((doc: {
           file_id?: string;
           filename: string;
+          file_type?: string;
           size_bytes: number;
           uploaded_at: number;
+          status?: IngestionStatus;
+          status_error?: string;
+          source_url?: string;
+          last_crawled_at?: number;
         }) => ({
           file_id: doc.file_id || '',
           filename: doc.filename,
-          file_type: 'pdf',
+          file_type: doc.file_type || detectDocumentType(doc.filename) || 'unknown',
           size_bytes: doc.size_bytes,
-          upload_time: new Date(doc.uploaded_at * 1000).toISOString() // Convert from timestamp
+          upload_time: new Date(doc.uploaded_at * 1000).toISOString(), // Convert from timestamp
+          status: doc.status,
+          status_error: doc.status_error,
+          source_url: doc.source_url,
+          last_crawled_at: doc.last_crawled_at ? new Date(doc.last_crawled_at * 1000).toISOString() : undefined,
         }));
       } else {
         console.log('No user documents found, returning empty array');
         return [];
       }
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error in listDocuments:', error);
       return []; // Return empty array on error
     }
   },
 
-  deleteDocument: async (documentId: string): Promise<void> => {
+  // Fetch web pages and ingest them like uploaded files. With `sitemap` each URL is read
+  // as a sitemap and every page it lists is ingested. Returns one queued document per page.
+  ingestURLs: async (urls: string[], options: { sitemap?: boolean; signal?: AbortSignal } = {}): Promise<Document[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/documents/ingest-url`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ urls, sitemap: !!options.sitemap }),
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to ingest URLs: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return (result.documents || []).map(mapWebDocument);
+  },
+
+  // Fetch a web document's page again and re-index it if it changed
+  recrawlDocument: async (documentId: string, signal?: AbortSignal): Promise<Document> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/recrawl`, {
+      method: 'POST',
+      headers,
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to re-crawl document: ${response.status} - ${errorText}`);
+    }
+    return mapWebDocument(await response.json());
+  },
+
+  // Where a document is in the ingestion pipeline. Polled until it is ready or failed.
+  getIngestionStatus: async (documentId: string, signal?: AbortSignal): Promise<IngestionState> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/status`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get ingestion status: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return { status: result.status, error: result.error || undefined };
+  },
+
+  // Plain text the server extracted during ingestion, used to preview formats the
+  // browser can't render itself (DOCX, PPTX)
+  getDocumentPreview: async (documentId: string, signal?: AbortSignal): Promise<string> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/preview`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get document preview: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.text || '';
+  },
+
+  // Download the original file so it can be rendered in the source viewer.
+  getDocumentFile: async (documentId: string, signal?: AbortSignal): Promise<Blob> => {
+    // Auth and workspace headers; no Content-Type on a plain file download
+    const headers = await getAuthHeaders();
+    delete headers['Content-Type'];
+
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/file`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to download document: ${response.status} - ${errorText}`);
+    }
+    return response.blob();
+  },
+
+  deleteDocument: async (documentId: string, signal?: AbortSignal): Promise<void> => {
     const headers = await getAuthHeaders();
     const response = await fetch(`${API_BASE_URL}/documents/delete/${documentId}`, {
       method: 'DELETE',
       headers,
+      signal,
     });
     if (!response.ok) {
       const errorText = await response.text();
@@ -217,12 +549,19 @@ export const documentAPI = {
 
 // RAG Pipeline API (User-Isolated)
 export const ragAPI = {
-  processDocument: async (file: File): Promise<Document> => {
-    // This is now handled by documentAPI.uploadPDF
-    return documentAPI.uploadPDF(file);
+  // Kept for older callers. Uploading already ingests the file, so never call this
+  // after documentAPI.uploadDocument — that would post (and index) the same file twice.
+  processDocument: async (file: File, signal?: AbortSignal): Promise<Document> => {
+    return documentAPI.uploadDocument(file, { signal });
   },
 
-  search: async (query: string, documentIds?: string[], topK: number = 5) => {
+  search: async (
+    query: string,
+    documentIds?: string[],
+    topK: number = 5,
+    signal?: AbortSignal,
+    retrieval?: RagRequestOptions['retrieval'],
+  ) => {
     const headers = await getAuthHeaders();
     const response = await fetch(`${API_BASE_URL}/rag/search`, {
       method: 'POST',
@@ -231,7 +570,9 @@ export const ragAPI = {
         query,
         document_ids: documentIds,
         top_k: topK,
+        ...buildRetrievalParams(retrieval),
       }),
+      signal,
     });
     
     if (!response.ok) {
@@ -247,14 +588,17 @@ export const ragAPI = {
     topK: number = 5,
     onToken: (token: string) => void = () => {},
     onSources: (sources: Source[]) => void = () => {},
-    onDone: () => void = () => {},
+    onDone: (modelUsed?: string) => void = () => {},
     onError: (msg: string) => void = () => {},
+    options: RagRequestOptions = {},
   ): Promise<void> => {
+    const { signal } = options;
     const authHeaders = await getAuthHeaders();
     const response = await fetch(`${API_BASE_URL}/rag/search-llm-stream`, {
       method: 'POST',
       headers: authHeaders,
-      body: JSON.stringify({ query, document_ids: documentIds, top_k: topK }),
+      body: JSON.stringify(buildLLMRequestBody(query, documentIds, topK, options)),
+      signal,
     });
 
     if (!response.ok) {
@@ -266,39 +610,46 @@ export const ragAPI = {
     const decoder = new TextDecoder();
     let buffer = '';
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() ?? '';   // keep incomplete last line
-
-      for (const line of lines) {
-        if (!line.startsWith('data: ')) continue;
-        try {
-          const event = JSON.parse(line.slice(6));
-          if (event.type === 'token')   onToken(event.content);
-          if (event.type === 'sources') onSources(event.sources);
-          if (event.type === 'done')    onDone();
-          if (event.type === 'error')   onError(event.message);
-        } catch {
-          // malformed line — skip
+    // Aborting the fetch errors the body stream, but cancel the reader too so
+    // a pending read() settles right away instead of waiting on the network.
+    const cancelReader = () => { reader.cancel().catch(() => {}); };
+    signal?.addEventListener('abort', cancelReader);
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (signal?.aborted) throw new DOMException('Stream aborted', 'AbortError');
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';   // keep incomplete last line
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          try {
+            const event = JSON.parse(line.slice(6));
+            if (event.type === 'token')   onToken(event.content);
+            if (event.type === 'sources') onSources(event.sources);
+            if (event.type === 'done')    onDone(event.model_used);
+            if (event.type === 'error')   onError(event.message);
+          } catch {
+            // malformed line — skip
+          }
         }
       }
+    } finally {
+      signal?.removeEventListener('abort', cancelReader);
     }
   },
 
-  searchLLM: async (query: string, documentIds?: string[], topK: number = 5): Promise<SearchResponse> => {
+  searchLLM: async (query: string, documentIds?: string[], topK: number = 5, options: RagRequestOptions = {}): Promise<SearchResponse> => {
     const headers = await getAuthHeaders();
     const response = await fetch(`${API_BASE_URL}/rag/search-llm`, {
       method: 'POST',
       headers,
-      body: JSON.stringify({
-        query,
-        document_ids: documentIds,
-        top_k: topK,
-      }),
+      body: JSON.stringify(buildLLMRequestBody(query, documentIds, topK, options)),
+      signal: options.signal,
     });
     
     if (!response.ok) {
@@ -308,22 +659,78 @@ export const ragAPI = {
     return response.json();
   },
 
-  health: async (): Promise<{ status: string; message?: string }> => {
-    const response = await fetch(`${API_BASE_URL}/rag/health`);
+  health: async (signal?: AbortSignal): Promise<{ status: string; message?: string }> => {
+    const response = await fetch(`${API_BASE_URL}/rag/health`, { signal });
     if (!response.ok) throw new Error('RAG health check failed');
     return response.json();
   },
 };
 
+export const SESSION_PAGE_SIZE = 50;
+export const MESSAGE_PAGE_SIZE = 50;
+
+interface RawSession {
+  session_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  is_active: boolean;
+  message_count: number;
+  pinned?: boolean;
+  folder_id?: string | null;
+  tag_ids?: string[];
+  retrieval_settings?: RetrievalSettings;
+}
+
+interface RawMessage {
+  id: number;
+  type: string;
+  content: string;
+  timestamp: string;
+  sources?: Source[];
+  stopped?: boolean;
+  variants?: MessageVariant[];
+  variant_index?: number;
+  model_used?: string;
+  feedback?: MessageFeedback;
+}
+
+// Convert API responses to the Chat / Message interface format
+const mapSession = (session: RawSession): Chat => ({
+  session_id: session.session_id,
+  title: session.title,
+  created_at: session.created_at,
+  updated_at: session.updated_at,
+  is_active: session.is_active,
+  message_count: session.message_count,
+  pinned: !!session.pinned,
+  folder_id: session.folder_id ?? null,
+  tag_ids: session.tag_ids || [],
+  ...(session.retrieval_settings ? { retrieval_settings: session.retrieval_settings } : {}),
+});
+
+const mapMessage = (msg: RawMessage): Message => ({
+  id: msg.id.toString(),
+  role: msg.type as 'user' | 'assistant',
+  content: msg.content,
+  timestamp: msg.timestamp,
+  sources: msg.sources || [],
+  ...(msg.stopped ? { stopped: true } : {}),
+  ...(msg.variants?.length ? { variants: msg.variants, variantIndex: msg.variant_index ?? msg.variants.length - 1 } : {}),
+  ...(msg.model_used ? { model_used: msg.model_used } : {}),
+  ...(msg.feedback ? { feedback: msg.feedback } : {}),
+});
+
 // Chat Session API (User-Isolated via Local Storage)
 export const chatAPI = {
-  createSession: async (title?: string): Promise<Chat> => {
+  createSession: async (title?: string, signal?: AbortSignal): Promise<Chat> => {
     try {
       const headers = await getAuthHeaders();
       const response = await fetch(`${API_BASE_URL}/chat/sessions`, {
         method: 'POST',
         headers,
         body: JSON.stringify({ title: title || 'New Chat' }),
+        signal,
       });
 
       if (!response.ok) {
@@ -351,7 +758,129 @@ export const chatAPI = {
     }
   },
 
-  getSessions: async (): Promise<Chat[]> => {
+  // Recreates a session from an import in one request, keeping the original
+  // timestamps and sources. Returns the new session.
+  importSession: async (
+    conversation: {
+      title: string;
+      created_at?: string;
+      messages: {
+        role: 'user' | 'assistant';
+        content: string;
+        timestamp: string;
+        sources?: Source[];
+        stopped?: boolean;
+        variants?: MessageVariant[];
+        variantIndex?: number;
+        model_used?: string;
+        feedback?: MessageFeedback;
+      }[];
+    },
+    signal?: AbortSignal,
+  ): Promise<Chat> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/import`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        title: conversation.title,
+        created_at: conversation.created_at,
+        messages: conversation.messages.map(({ role, variantIndex, ...message }) => ({
+          ...message,
+          message_type: role,
+          ...(variantIndex !== undefined ? { variant_index: variantIndex } : {}),
+        })),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to import session: ${response.status} - ${errorText}`);
+    }
+    return mapSession(await response.json());
+  },
+
+  // Full-text search over the content of every message in the user's sessions.
+  // Hits come back best match first; callers group them by session.
+  searchMessages: async (query: string, signal?: AbortSignal): Promise<MessageSearchHit[]> => {
+    const headers = await getAuthHeaders();
+    const params = new URLSearchParams({ q: query });
+    const response = await fetch(`${API_BASE_URL}/chat/search?${params}`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to search messages: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return (result.results || []).map((hit: {
+      session_id: string;
+      session_title?: string;
+      message_id: string;
+      message_type?: string;
+      snippet: string;
+      timestamp: string;
+    }) => ({
+      session_id: hit.session_id,
+      session_title: hit.session_title || 'Untitled chat',
+      message_id: hit.message_id,
+      role: hit.message_type === 'user' ? 'user' : 'assistant',
+      snippet: hit.snippet,
+      timestamp: hit.timestamp,
+    }));
+  },
+
+  // One page of sessions, most recently updated first. Pass `nextCursor` back in to
+  // get the following page; it is null on the last one.
+  getSessionsPage: async (
+    cursor: string | null,
+    limit: number = SESSION_PAGE_SIZE,
+    signal?: AbortSignal,
+  ): Promise<{ sessions: Chat[]; nextCursor: string | null }> => {
+    const headers = await getAuthHeaders();
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set('cursor', cursor);
+    const response = await fetch(`${API_BASE_URL}/chat/sessions?${params}`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get sessions: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    // Servers without pagination return every session as a plain array
+    if (Array.isArray(result)) return { sessions: result.map(mapSession), nextCursor: null };
+    return { sessions: (result.sessions || []).map(mapSession), nextCursor: result.next_cursor ?? null };
+  },
+
+  // Messages older than `before`, oldest first, and the cursor for the page before them
+  getMessagesPage: async (
+    sessionId: string,
+    before: string,
+    limit: number = MESSAGE_PAGE_SIZE,
+    signal?: AbortSignal,
+  ): Promise<{ messages: Message[]; olderCursor: string | null }> => {
+    const headers = await getAuthHeaders();
+    const params = new URLSearchParams({ before, limit: String(limit) });
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages?${params}`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get messages: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return { messages: (result.messages || []).map(mapMessage), olderCursor: result.older_cursor ?? null };
+  },
+
+  // A session with every one of its messages, paging back to the start. Used by export.
+  getFullSession: async (sessionId: string, signal?: AbortSignal): Promise<{ session: Chat; messages: Message[] }> => {
+    const { session, messages, olderCursor } = await chatAPI.getSession(sessionId, signal);
+    let allMessages = messages;
+    let cursor = olderCursor;
+    while (cursor) {
+      const page = await chatAPI.getMessagesPage(sessionId, cursor, MESSAGE_PAGE_SIZE, signal);
+      allMessages = [...page.messages, ...allMessages];
+      cursor = page.olderCursor;
+    }
+    return { session, messages: allMessages };
+  },
+
+  getSessions: async (signal?: AbortSignal): Promise<Chat[]> => {
     try {
       console.log('🔍 Fetching user chat sessions');
       const headers = await getAuthHeaders();
@@ -360,6 +889,7 @@ export const chatAPI = {
       const response = await fetch(`${API_BASE_URL}/chat/sessions`, {
         method: 'GET',
         headers,
+        signal,
       });
 
       if (!response.ok) {
@@ -377,34 +907,35 @@ export const chatAPI = {
       const sessions = await response.json();
       
       // Convert API response to Chat interface format
-      const chatSessions: Chat[] = sessions.map((session: { session_id: string; title: string; created_at: string; updated_at: string; is_active: boolean; message_count: number }) => ({
-        session_id: session.session_id,
-        title: session.title,
-        created_at: session.created_at,
-        updated_at: session.updated_at,
-        is_active: session.is_active,
-        message_count: session.message_count
-      }));
+      const chatSessions: Chat[] = sessions.map(mapSession);
       
       console.log('Retrieved sessions:', chatSessions);
       return chatSessions;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error getting sessions:', error);
       // Return empty array as fallback
       return [];
     }
   },
 
-  getSession: async (sessionId: string): Promise<{ session: Chat; messages: Message[] }> => {
+  // Session details plus its newest `messageLimit` messages. `olderCursor` is set when
+  // there are earlier messages; pass it to getMessagesPage to load them.
+  getSession: async (
+    sessionId: string,
+    signal?: AbortSignal,
+    messageLimit: number = MESSAGE_PAGE_SIZE,
+  ): Promise<{ session: Chat; messages: Message[]; olderCursor: string | null }> => {
     try {
       console.log('Fetching session:', sessionId);
       
       const headers = await getAuthHeaders();
       
       // Get session details and messages in one call
-      const messagesResponse = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}`, {
+      const messagesResponse = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}?message_limit=${messageLimit}`, {
         method: 'GET',
         headers,
+        signal,
       });
 
       if (!messagesResponse.ok) {
@@ -420,27 +951,127 @@ export const chatAPI = {
         created_at: sessionData.created_at || new Date().toISOString(),
         updated_at: sessionData.updated_at || new Date().toISOString(),
         is_active: true,
-        message_count: sessionData.messages?.length ?? 0,
+        message_count: sessionData.message_count ?? sessionData.messages?.length ?? 0,
+        document_ids: sessionData.document_ids || [],
+        ...(sessionData.retrieval_settings ? { retrieval_settings: sessionData.retrieval_settings } : {}),
       };
 
-      const messages: Message[] = (sessionData.messages ?? []).map(
-        (msg: { id: number; type: string; content: string; timestamp: string; sources?: Source[] }) => ({
-          id: msg.id.toString(),
-          role: msg.type as 'user' | 'assistant',
-          content: msg.content,
-          timestamp: msg.timestamp,
-          sources: msg.sources || [],
-        })
-      );
-
-      return { session, messages };
+      const messages: Message[] = (sessionData.messages ?? []).map(mapMessage);
+
+      return { session, messages, olderCursor: sessionData.older_cursor ?? null };
     } catch (error) {
       console.error('Error fetching session:', error);
       throw error;
     }
   },
 
-  sendMessage: async (sessionId: string, message: string, documentIds?: string[]): Promise<{ userMessage: Message; aiMessage: Message; ragResponse?: unknown; error?: string }> => {
+  // Persist a single message to the session. Used by the streaming chat flow,
+  // which saves the user turn up front and the assistant turn once `done` arrives.
+  saveMessage: async (
+    sessionId: string,
+    content: string,
+    role: 'user' | 'assistant',
+    sources?: Source[],
+    options: {
+      stopped?: boolean;
+      modelUsed?: string;
+      // Restoring a message from another branch brings its versions and rating along
+      variants?: MessageVariant[];
+      variantIndex?: number;
+      feedback?: MessageFeedback;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<Message> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          content,
+          message_type: role,
+          ...(sources ? { sources } : {}),
+          ...(options.stopped ? { stopped: true } : {}),
+          ...(options.modelUsed ? { model_used: options.modelUsed } : {}),
+          ...(options.variants?.length ? { variants: options.variants, variant_index: options.variantIndex } : {}),
+          ...(options.feedback ? { feedback: options.feedback } : {}),
+        }),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(`Failed to save ${role} message: ${response.status} - ${JSON.stringify(errorData)}`);
+      }
+
+      const saved = await response.json();
+      return {
+        id: saved.id?.toString() || `msg_${Date.now()}_${role}`,
+        content: saved.content ?? content,
+        role,
+        timestamp: saved.timestamp || new Date().toISOString(),
+        sources: saved.sources || sources || [],
+        ...(options.stopped ? { stopped: true } : {}),
+        ...(options.modelUsed ? { model_used: options.modelUsed } : {}),
+        ...(options.variants?.length ? { variants: options.variants, variantIndex: options.variantIndex ?? options.variants.length - 1 } : {}),
+        ...(options.feedback ? { feedback: options.feedback } : {}),
+      };
+    } catch (error) {
+      console.error('Error in saveMessage:', error);
+      throw error;
+    }
+  },
+
+  // Overwrite a stored message after a regenerate, edit or variant switch.
+  updateMessage: async (sessionId: string, message: Message, signal?: AbortSignal): Promise<void> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages/${message.id}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({
+          content: message.content,
+          sources: message.sources,
+          stopped: !!message.stopped,
+          variants: message.variants,
+          variant_index: message.variantIndex,
+          model_used: message.model_used,
+          feedback: message.feedback ?? null,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(`Failed to update message: ${response.status} - ${JSON.stringify(errorData)}`);
+      }
+    } catch (error) {
+      console.error('Error in updateMessage:', error);
+      throw error;
+    }
+  },
+
+  // Remove every message that comes after `messageId` in the session.
+  deleteMessagesAfter: async (sessionId: string, messageId: string, signal?: AbortSignal): Promise<void> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages?after=${encodeURIComponent(messageId)}`, {
+        method: 'DELETE',
+        headers,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(`Failed to truncate session: ${response.status} - ${JSON.stringify(errorData)}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteMessagesAfter:', error);
+      throw error;
+    }
+  },
+
+  sendMessage: async (sessionId: string, message: string, documentIds?: string[], signal?: AbortSignal): Promise<{ userMessage: Message; aiMessage: Message; ragResponse?: unknown; error?: string }> => {
     try {
       const headers = await getAuthHeaders();
       
@@ -449,6 +1080,7 @@ export const chatAPI = {
         method: 'POST',
         headers,
         body: JSON.stringify({ content: message, message_type: 'user' }),
+        signal,
       });
 
       if (!userMessageResponse.ok) {
@@ -461,7 +1093,7 @@ export const chatAPI = {
 
       // Then, generate AI response using RAG
       try {
-        const ragResponse = await ragAPI.searchLLM(message, documentIds);
+        const ragResponse = await ragAPI.searchLLM(message, documentIds, 5, { signal });
         
         // Add the AI response to the session
         const aiMessageResponse = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages`, {
@@ -472,6 +1104,7 @@ export const chatAPI = {
             message_type: 'assistant',
             sources: ragResponse.sources 
           }),
+          signal,
         });
 
         if (!aiMessageResponse.ok) {
@@ -487,6 +1120,7 @@ export const chatAPI = {
           ragResponse
         };
       } catch (ragError) {
+        if (isAbortError(ragError)) throw ragError;
         console.error('RAG error, falling back to simple response:', ragError);
         
         // Fallback to a simple response if RAG fails
@@ -515,12 +1149,13 @@ export const chatAPI = {
     }
   },
 
-  deleteSession: async (sessionId: string): Promise<void> => {
+  deleteSession: async (sessionId: string, signal?: AbortSignal): Promise<void> => {
     try {
       const headers = await getAuthHeaders();
       const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}`, {
         method: 'DELETE',
         headers,
+        signal,
       });
 
       if (!response.ok) {
@@ -535,7 +1170,7 @@ export const chatAPI = {
     }
   },
 
-  updateSessionTitle: async (sessionId: string, title: string): Promise<void> => {
+  updateSessionTitle: async (sessionId: string, title: string, signal?: AbortSignal): Promise<void> => {
     try {
       console.log('Updating session title:', sessionId, title);
       const headers = await getAuthHeaders();
@@ -543,6 +1178,7 @@ export const chatAPI = {
         method: 'PUT',
         headers,
         body: JSON.stringify({ title }),
+        signal,
       });
 
       if (!response.ok) {
@@ -557,9 +1193,161 @@ export const chatAPI = {
     }
   },
 
-  updateSessionDocuments: async (sessionId: string, documentIds: string[]): Promise<void> => {
-    // This can be implemented later when we have proper session-document association
-    console.log('Update session documents:', sessionId, documentIds);
+  // Pin, move to a folder or retag a session. Only the given fields change.
+  updateSessionOrganization: async (sessionId: string, changes: SessionOrganization, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(changes),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update session: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // ── folders and tags ──────────────────────────────────────────────────────
+  listFolders: async (signal?: AbortSignal): Promise<ChatFolder[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/folders`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list folders: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.folders || [];
+  },
+
+  createFolder: async (name: string, signal?: AbortSignal): Promise<ChatFolder> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/folders`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create folder: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  },
+
+  renameFolder: async (folderId: string, name: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/folders/${folderId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ name }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to rename folder: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // The folder's chats are kept and become unfiled
+  deleteFolder: async (folderId: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/folders/${folderId}`, { method: 'DELETE', headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to delete folder: ${response.status} - ${errorText}`);
+    }
+  },
+
+  listTags: async (signal?: AbortSignal): Promise<ChatTag[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/tags`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list tags: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.tags || [];
+  },
+
+  createTag: async (name: string, color: string, signal?: AbortSignal): Promise<ChatTag> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/tags`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name, color }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create tag: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  },
+
+  // Also removes the tag from every session that has it
+  deleteTag: async (tagId: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/tags/${tagId}`, { method: 'DELETE', headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to delete tag: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // Asks the LLM for a short title summarizing the first exchange. Only returns the
+  // title; callers save it with updateSessionTitle.
+  generateSessionTitle: async (sessionId: string, question: string, answer: string, signal?: AbortSignal): Promise<string> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/generate-title`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ question, answer }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to generate title: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.title || '';
+  },
+
+  // Saves the documents a session's questions are scoped to. An empty list means
+  // "search all documents".
+  updateSessionDocuments: async (sessionId: string, documentIds: string[], signal?: AbortSignal): Promise<void> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/documents`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ document_ids: documentIds }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(`Failed to update session documents: ${response.status} - ${JSON.stringify(errorData)}`);
+      }
+    } catch (error) {
+      console.error('Error in updateSessionDocuments:', error);
+      throw error;
+    }
+  },
+
+  // Saves the retrieval settings a session's questions are asked with
+  updateSessionSettings: async (sessionId: string, settings: RetrievalSettings, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/settings`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ retrieval_settings: settings }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update session settings: ${response.status} - ${errorText}`);
+    }
   },
 
   // Legacy method for compatibility - now uses the backend
@@ -594,4 +1382,202 @@ export const chatAPI = {
       throw error;
     }
   }
-};
\ No newline at end of file
+};
+
+// Shared links. Creating, listing and revoking need the owner's token; opening a
+// link doesn't, so the snapshot endpoint is called without auth headers.
+export const shareAPI = {
+  // Snapshots the session's messages as they are now; later messages aren't shared
+  createLink: async (sessionId: string, expiresAt: string | null, signal?: AbortSignal): Promise<SharedLink> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/shares`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ expires_at: expiresAt }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create share link: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  },
+
+  // Every link the user has created, newest first, including expired ones
+  listLinks: async (signal?: AbortSignal): Promise<SharedLink[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/shares`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list share links: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.shares || [];
+  },
+
+  revokeLink: async (shareId: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/shares/${shareId}`, { method: 'DELETE', headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to revoke share link: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // Returns null when the link doesn't exist, was revoked or has expired
+  getSharedConversation: async (shareId: string, signal?: AbortSignal): Promise<SharedConversation | null> => {
+    const response = await fetch(`${API_BASE_URL}/public/shares/${shareId}`, { signal });
+    if (response.status === 404 || response.status === 410) return null;
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to load shared conversation: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return {
+      share: result.share,
+      messages: (result.messages || []).map(mapMessage),
+    };
+  },
+};
+
+// Team workspaces. The personal space isn't listed; it is what's used when no
+// workspace is active.
+export const workspaceAPI = {
+  listWorkspaces: async (signal?: AbortSignal): Promise<Workspace[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list workspaces: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.workspaces || [];
+  },
+
+  // The creator becomes the owner
+  createWorkspace: async (name: string, signal?: AbortSignal): Promise<Workspace> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create workspace: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  },
+
+  listMembers: async (workspaceId: string, signal?: AbortSignal): Promise<WorkspaceMember[]> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces/${workspaceId}/members`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list workspace members: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return result.members || [];
+  },
+
+  // Owners only. The invitee gets access the next time they sign in with that email.
+  inviteMember: async (workspaceId: string, email: string, role: WorkspaceRole, signal?: AbortSignal): Promise<WorkspaceMember> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces/${workspaceId}/members`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ email, role }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to invite member: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  },
+
+  updateMemberRole: async (workspaceId: string, memberId: string, role: WorkspaceRole, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces/${workspaceId}/members/${memberId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ role }),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to update member role: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // Also used to leave a workspace, with the user's own member id
+  removeMember: async (workspaceId: string, memberId: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/workspaces/${workspaceId}/members/${memberId}`, {
+      method: 'DELETE',
+      headers,
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to remove member: ${response.status} - ${errorText}`);
+    }
+  },
+};
+
+// Answer ratings. The question, answer, sources and model are stored with each rating
+// so a review doesn't depend on the session still existing.
+export const feedbackAPI = {
+  // Creates or replaces the user's rating of an assistant message
+  submitFeedback: async (
+    sessionId: string,
+    messageId: string,
+    feedback: MessageFeedback & { query: string; answer: string; sources: Source[]; model_used?: string },
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}/feedback`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(feedback),
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to save feedback: ${response.status} - ${errorText}`);
+    }
+  },
+
+  clearFeedback: async (sessionId: string, messageId: string, signal?: AbortSignal): Promise<void> => {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${sessionId}/messages/${messageId}/feedback`, {
+      method: 'DELETE',
+      headers,
+      signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to clear feedback: ${response.status} - ${errorText}`);
+    }
+  },
+
+  // Newest first, one page at a time; `nextCursor` is null on the last page
+  listFeedback: async (
+    filters: { rating?: FeedbackRating; reason?: FeedbackReason; cursor?: string | null },
+    signal?: AbortSignal,
+  ): Promise<{ entries: FeedbackEntry[]; nextCursor: string | null }> => {
+    const headers = await getAuthHeaders();
+    const params = new URLSearchParams();
+    if (filters.rating) params.set('rating', filters.rating);
+    if (filters.reason) params.set('reason', filters.reason);
+    if (filters.cursor) params.set('cursor', filters.cursor);
+    const response = await fetch(`${API_BASE_URL}/feedback?${params}`, { headers, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list feedback: ${response.status} - ${errorText}`);
+    }
+    const result = await response.json();
+    return { entries: result.feedback || [], nextCursor: result.next_cursor ?? null };
+  },
+};
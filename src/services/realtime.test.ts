@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionStatus, RealtimeClient } from './realtime';
+
+// Stands in for the browser WebSocket; tests drive the server side by hand
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  sent: { type: string; [key: string]: unknown }[] = [];
+  closedWith: number | null = null;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000) {
+    this.closedWith = code;
+  }
+
+  serverOpen() {
+    this.onopen?.();
+  }
+
+  serverSend(message: unknown) {
+    this.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) });
+  }
+
+  serverClose() {
+    this.onclose?.();
+  }
+}
+
+const latestSocket = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+const createClient = (overrides: Partial<ConstructorParameters<typeof RealtimeClient>[0]> = {}) =>
+  new RealtimeClient({
+    url: 'ws://test/ws',
+    getToken: async () => 'token-1',
+    heartbeatIntervalMs: 1_000,
+    heartbeatTimeoutMs: 500,
+    authTimeoutMs: 2_000,
+    reconnectBaseDelayMs: 100,
+    reconnectMaxDelayMs: 1_000,
+    WebSocketImpl: FakeSocket as unknown as typeof WebSocket,
+    ...overrides,
+  });
+
+// Opens the connection and completes the auth handshake
+const connect = async (client: RealtimeClient) => {
+  client.connect();
+  await vi.advanceTimersByTimeAsync(0);
+  const socket = latestSocket();
+  socket.serverOpen();
+  socket.serverSend({ type: 'auth.ok' });
+  return socket;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeSocket.instances = [];
+  // Jitter off: every reconnect waits the full backoff ceiling
+  vi.spyOn(Math, 'random').mockReturnValue(1);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('RealtimeClient', () => {
+  it('authenticates on open and reports connected only after auth.ok', async () => {
+    const client = createClient({ workspaceId: 'ws-9' });
+    const statuses: ConnectionStatus[] = [];
+    client.onStatusChange(status => statuses.push(status));
+
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const socket = latestSocket();
+    socket.serverOpen();
+    expect(socket.sent).toEqual([{ type: 'auth', token: 'token-1', workspace_id: 'ws-9' }]);
+    expect(client.getStatus()).toBe('connecting');
+
+    socket.serverSend({ type: 'auth.ok' });
+    expect(statuses).toEqual(['connecting', 'connected']);
+    client.disconnect();
+  });
+
+  it('passes events to their subscribers and survives bad input', async () => {
+    const client = createClient();
+    const socket = await connect(client);
+    const deleted = vi.fn();
+    const failing = vi.fn(() => { throw new Error('boom'); });
+    client.subscribe('session.deleted', failing);
+    const unsubscribe = client.subscribe('session.deleted', deleted);
+
+    socket.serverSend('not json');
+    socket.serverSend({ type: 'session.deleted', payload: { session_id: 's1' } });
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(deleted).toHaveBeenCalledWith({ session_id: 's1' });
+
+    unsubscribe();
+    socket.serverSend({ type: 'session.deleted', payload: { session_id: 's2' } });
+    expect(deleted).toHaveBeenCalledTimes(1);
+    client.disconnect();
+  });
+
+  it('reconnects with exponential backoff up to the maximum delay', async () => {
+    const client = createClient();
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    for (const delay of [100, 200, 400, 800, 1_000, 1_000]) {
+      const count = FakeSocket.instances.length;
+      latestSocket().serverClose();
+      expect(client.getStatus()).toBe('reconnecting');
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(FakeSocket.instances).toHaveLength(count);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(FakeSocket.instances).toHaveLength(count + 1);
+    }
+    client.disconnect();
+  });
+
+  it('starts the backoff over once a connection is authenticated', async () => {
+    const client = createClient();
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    latestSocket().serverClose();
+    await vi.advanceTimersByTimeAsync(100);
+    latestSocket().serverClose();
+    await vi.advanceTimersByTimeAsync(200);
+
+    const socket = latestSocket();
+    socket.serverOpen();
+    socket.serverSend({ type: 'auth.ok' });
+    socket.serverClose();
+    const count = FakeSocket.instances.length;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSocket.instances).toHaveLength(count + 1);
+    client.disconnect();
+  });
+
+  it('keeps the connection while pongs arrive', async () => {
+    const client = createClient();
+    const socket = await connect(client);
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(socket.sent[socket.sent.length - 1]).toEqual({ type: 'ping' });
+      socket.serverSend({ type: 'pong' });
+    }
+    await vi.advanceTimersByTimeAsync(500);
+    expect(socket.closedWith).toBeNull();
+    expect(client.getStatus()).toBe('connected');
+    client.disconnect();
+  });
+
+  it('drops the socket and reconnects when a pong does not arrive in time', async () => {
+    const client = createClient();
+    const socket = await connect(client);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(socket.sent.filter(m => m.type === 'ping')).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(socket.closedWith).toBe(4000);
+    expect(client.getStatus()).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+
+  it('reconnects when the server never answers the auth message', async () => {
+    const client = createClient();
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const socket = latestSocket();
+    socket.serverOpen();
+
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(socket.closedWith).toBeNull();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(socket.closedWith).toBe(4002);
+    expect(client.getStatus()).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+
+  it('stops the auth timeout once authenticated', async () => {
+    const client = createClient({ heartbeatIntervalMs: 60_000 });
+    const socket = await connect(client);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(socket.closedWith).toBeNull();
+    expect(client.getStatus()).toBe('connected');
+    client.disconnect();
+  });
+
+  it('retries with a fresh token after auth.error', async () => {
+    const getToken = vi.fn().mockResolvedValueOnce('expired').mockResolvedValue('fresh');
+    const client = createClient({ getToken });
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const first = latestSocket();
+    first.serverOpen();
+    first.serverSend({ type: 'auth.error', payload: { message: 'Token expired' } });
+    expect(first.closedWith).toBe(4001);
+
+    await vi.advanceTimersByTimeAsync(100);
+    const second = latestSocket();
+    second.serverOpen();
+    expect(second.sent[0]).toMatchObject({ type: 'auth', token: 'fresh' });
+    client.disconnect();
+  });
+
+  it('waits and retries when there is no token yet', async () => {
+    const getToken = vi.fn().mockResolvedValueOnce(null).mockResolvedValue('token-1');
+    const client = createClient({ getToken });
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(FakeSocket.instances).toHaveLength(0);
+    expect(client.getStatus()).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeSocket.instances).toHaveLength(1);
+    client.disconnect();
+  });
+
+  it('stops reconnecting after disconnect', async () => {
+    const client = createClient();
+    const socket = await connect(client);
+    client.disconnect();
+    expect(socket.closedWith).toBe(1000);
+    expect(client.getStatus()).toBe('disconnected');
+
+    socket.serverClose();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(client.send('anything')).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import { API_BASE_URL, Chat, Document, IngestionState, Message, RetrievalSettings } from './api';
+
+// Events the server pushes, by type. Every frame on the wire is `{ type, payload }`.
+// Payloads use the same shapes as the REST mappings in services/api.
+export interface RealtimeEventMap {
+  'session.created': { session: Chat };
+  'session.updated': { session: Chat };  // e.g. renamed
+  'session.deleted': { session_id: string };
+  'session.documents': { session_id: string; document_ids: string[] };  // document scope changed
+  'session.settings': { session_id: string; retrieval_settings: RetrievalSettings };  // retrieval settings changed
+  'message.created': { session_id: string; message: Message };
+  'document.created': { document: Document };
+  'document.updated': { document: Document };  // e.g. re-crawled
+  'document.status': IngestionState & { document_id: string };
+  'document.deleted': { document_id: string };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+export type RealtimeHandler<K extends RealtimeEventType> = (payload: RealtimeEventMap[K]) => void;
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeClientOptions {
+  url: string;
+  getToken: () => Promise<string | null>;
+  workspaceId?: string | null;  // team workspace whose events to receive; personal space when unset
+  heartbeatIntervalMs?: number;
+  heartbeatTimeoutMs?: number;  // no pong within this long means the connection is dead
+  authTimeoutMs?: number;       // no auth reply within this long after opening the socket; retried
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  // Injected in tests or non-browser environments
+  WebSocketImpl?: typeof WebSocket;
+}
+
+// Protocol messages handled by the client itself rather than passed to subscribers
+type ControlMessage =
+  | { type: 'auth.ok' }
+  | { type: 'auth.error'; payload?: { message?: string } }
+  | { type: 'pong' };
+
+// Derived from the API URL unless NEXT_PUBLIC_WS_URL points somewhere else
+export const REALTIME_URL = process.env.NEXT_PUBLIC_WS_URL || `${API_BASE_URL.replace(/^http/, 'ws')}/ws`;
+
+export const REALTIME_ENABLED = process.env.NEXT_PUBLIC_REALTIME_ENABLED !== 'false';
+
+// Authenticated WebSocket with automatic reconnect and heartbeat.
+//
+// On open the client sends `{ type: 'auth', token, workspace_id }` with a fresh Firebase ID
+// token and only reports `connected` after the server answers `auth.ok`; no answer in time closes
+// the socket. A `ping` goes out every heartbeat interval; a missing `pong` closes the socket, and
+// every unexpected close reconnects with exponential backoff and jitter.
+export class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private status: ConnectionStatus = 'disconnected';
+  private attempt = 0;
+  private shouldRun = false;
+  private opening = false;
+  private generation = 0;  // bumped by disconnect() so a pending open() knows to give up
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private authTimer: ReturnType<typeof setTimeout> | null = null;
+  private handlers = new Map<string, Set<(payload: unknown) => void>>();
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  private readonly options: Required<Omit<RealtimeClientOptions, 'WebSocketImpl'>> & { WebSocketImpl?: typeof WebSocket };
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = {
+      heartbeatIntervalMs: 25_000,
+      heartbeatTimeoutMs: 10_000,
+      authTimeoutMs: 10_000,
+      reconnectBaseDelayMs: 1_000,
+      reconnectMaxDelayMs: 30_000,
+      workspaceId: null,
+      ...options,
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  connect() {
+    if (this.shouldRun) return;
+    this.shouldRun = true;
+    this.open();
+  }
+
+  disconnect() {
+    this.shouldRun = false;
+    this.opening = false;
+    this.generation++;
+    this.clearTimers();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000, 'Client disconnect');
+    this.attempt = 0;
+    this.setStatus('disconnected');
+  }
+
+  // Skip the backoff wait, e.g. when the browser comes back online
+  reconnectNow() {
+    if (!this.shouldRun || this.opening || this.socket) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.open();
+  }
+
+  subscribe<K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>): () => void {
+    const set = this.handlers.get(type) || new Set();
+    set.add(handler as (payload: unknown) => void);
+    this.handlers.set(type, set);
+    return () => set.delete(handler as (payload: unknown) => void);
+  }
+
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  // Returns false when the message couldn't be sent because the client isn't connected
+  send(type: string, payload?: unknown): boolean {
+    if (this.status !== 'connected' || !this.socket) return false;
+    this.socket.send(JSON.stringify({ type, payload }));
+    return true;
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private async open() {
+    const generation = this.generation;
+    this.opening = true;
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+    let token: string | null = null;
+    try {
+      token = await this.options.getToken();
+    } catch (error) {
+      console.error('Error getting token for real-time connection:', error);
+    }
+    if (generation !== this.generation) return;
+    this.opening = false;
+    if (!token) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    const Impl = this.options.WebSocketImpl || WebSocket;
+    let socket: WebSocket;
+    try {
+      socket = new Impl(this.options.url);
+    } catch (error) {
+      console.error('Error opening real-time connection:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+    // Covers the handshake too: a socket that never opens is as stuck as one never answered
+    this.authTimer = setTimeout(() => {
+      this.authTimer = null;
+      console.warn('Real-time authentication timed out, reconnecting');
+      this.dropSocket(4002, 'Authentication timeout');
+    }, this.options.authTimeoutMs);
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'auth', token, workspace_id: this.options.workspaceId ?? null }));
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onclose = () => {
+      // A socket replaced by disconnect() or a newer connection is already dealt with
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearTimers();
+      this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // Always followed by close, which handles the reconnect
+    };
+  }
+
+  private handleMessage(data: unknown) {
+    let message: { type?: string; payload?: unknown };
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.warn('Ignoring malformed real-time message:', data);
+      return;
+    }
+    if (!message.type) return;
+
+    const control = message as ControlMessage;
+    switch (control.type) {
+      case 'auth.ok':
+        this.attempt = 0;
+        this.setStatus('connected');
+        this.startHeartbeat();
+        return;
+      case 'auth.error':
+        console.error('Real-time authentication failed:', control.payload?.message);
+        // Retry with a freshly fetched token
+        this.dropSocket(4001, 'Authentication failed');
+        return;
+      case 'pong':
+        if (this.pongTimer) {
+          clearTimeout(this.pongTimer);
+          this.pongTimer = null;
+        }
+        return;
+    }
+
+    this.handlers.get(message.type)?.forEach(handler => {
+      try {
+        handler(message.payload);
+      } catch (error) {
+        console.error(`Error in real-time handler for ${message.type}:`, error);
+      }
+    });
+  }
+
+  private startHeartbeat() {
+    this.clearTimers();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket || this.pongTimer) return;
+      this.socket.send(JSON.stringify({ type: 'ping' }));
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        console.warn('Real-time heartbeat timed out, reconnecting');
+        this.dropSocket(4000, 'Heartbeat timeout');
+      }, this.options.heartbeatTimeoutMs);
+    }, this.options.heartbeatIntervalMs);
+  }
+
+  // Abandons the current socket without waiting for a close handshake that a dead
+  // connection may never complete, then reconnects
+  private dropSocket(code: number, reason: string) {
+    const socket = this.socket;
+    this.socket = null;
+    this.clearTimers();
+    socket?.close(code, reason);
+    this.scheduleReconnect();
+  }
+
+  private clearTimers() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.heartbeatTimer = null;
+    this.pongTimer = null;
+    this.authTimer = null;
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldRun) {
+      this.setStatus('disconnected');
+      return;
+    }
+    const { reconnectBaseDelayMs, reconnectMaxDelayMs } = this.options;
+    const ceiling = Math.min(reconnectMaxDelayMs, reconnectBaseDelayMs * 2 ** this.attempt);
+    // Jitter so many clients don't reconnect in lockstep after a server restart
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    this.attempt++;
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+}
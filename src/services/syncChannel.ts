@@ -0,0 +1,40 @@
+import { getActiveWorkspaceId } from './api';
+import { RealtimeEventMap, RealtimeEventType } from './realtime';
+
+// Same-browser sync between tabs. Each tab publishes the changes it makes using the
+// real-time event shapes, so other tabs stay current even without a server connection.
+// A tab never receives its own messages, nor those of tabs open in another workspace.
+
+const CHANNEL_NAME = 'rag-chat-sync';
+
+interface SyncMessage {
+  type: RealtimeEventType;
+  payload: unknown;
+  workspace_id: string | null;
+}
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+export const publishSync = <K extends RealtimeEventType>(type: K, payload: RealtimeEventMap[K]) => {
+  try {
+    getChannel()?.postMessage({ type, payload, workspace_id: getActiveWorkspaceId() } satisfies SyncMessage);
+  } catch (error) {
+    console.warn('Could not publish tab sync message:', error);
+  }
+};
+
+export const subscribeSync = (listener: (message: SyncMessage) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+  const handleMessage = (event: MessageEvent<SyncMessage>) => {
+    if (event.data?.type && (event.data.workspace_id ?? null) === getActiveWorkspaceId()) listener(event.data);
+  };
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Chat, Message, Source } from '../services/api';
+import { EXPORT_FILE_FORMAT, toHtml, toJson, toMarkdown } from './conversationExport';
+import { parseConversationImport } from './conversationImport';
+
+const session: Chat = {
+  session_id: 's1',
+  title: 'Contract <review>',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  is_active: true,
+};
+
+const source: Source = {
+  chunk_id: 'c1',
+  text: 'The notice period is 30 days.',
+  similarity_score: 0.875,
+  metadata: { filename: 'contract.pdf', page: 4, chunk_index: 2 },
+};
+
+const message = (role: Message['role'], content: string, extra: Partial<Message> = {}): Message => ({
+  id: content,
+  role,
+  content,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const answer = message('assistant', 'Thirty days [1], not sixty [2].', { sources: [source] });
+
+describe('toMarkdown', () => {
+  it('turns citations with a source into footnotes and leaves the others as text', () => {
+    const markdown = toMarkdown(session, [message('user', 'Notice period?'), answer]);
+    expect(markdown).toContain('Thirty days [^2-1], not sixty [2].');
+    expect(markdown).toContain('[^2-1]: contract.pdf, Page 4 (87.5% match): "The notice period is 30 days."');
+    expect(markdown).not.toContain('[^2-2]');
+  });
+
+  it('marks stopped answers', () => {
+    expect(toMarkdown(session, [message('assistant', 'Partial', { stopped: true })])).toContain('_Generation stopped_');
+  });
+});
+
+describe('toHtml', () => {
+  it('links citations to footnotes', () => {
+    const html = toHtml(session, [answer]);
+    expect(html).toContain('<a href="#fn-1-1" id="ref-1-1">[1]</a>');
+    expect(html).toContain('<li id="fn-1-1" value="1">');
+  });
+
+  it('escapes the title and raw HTML in messages', () => {
+    const html = toHtml(session, [message('assistant', 'Hi <script>alert(1)</script> <img src=x onerror=alert(1)>')]);
+    expect(html).toContain('<title>Contract &lt;review&gt;</title>');
+    expect(html).not.toContain('<script>alert');
+    expect(html).not.toContain('<img src=x');
+  });
+
+  it('writes links with unsafe targets as plain text', () => {
+    const html = toHtml(session, [message('assistant', '[click **me**](javascript:alert(document.cookie)) and [data](data:text/html,x)')]);
+    expect(html).not.toMatch(/href="(javascript|data):/i);
+    expect(html).toContain('click <strong>me</strong>');
+  });
+
+  it('writes images with unsafe sources as their alt text', () => {
+    const html = toHtml(session, [message('assistant', '![diagram](javascript:alert(1))')]);
+    expect(html).not.toContain('<img');
+    expect(html).toContain('diagram');
+  });
+
+  it('keeps http(s), mailto and in-page links and images', () => {
+    const html = toHtml(session, [message('assistant', '[docs](https://example.com) [mail](mailto:a@example.com) [top](#top) ![logo](https://example.com/logo.png)')]);
+    expect(html).toContain('<a href="https://example.com">docs</a>');
+    expect(html).toContain('<a href="mailto:a@example.com">mail</a>');
+    expect(html).toContain('<a href="#top">top</a>');
+    expect(html).toContain('<img src="https://example.com/logo.png" alt="logo">');
+  });
+});
+
+describe('toJson', () => {
+  it('can be imported again', () => {
+    const json = toJson(session, [message('user', 'Notice period?'), answer]);
+    expect(JSON.parse(json).format).toBe(EXPORT_FILE_FORMAT);
+    const result = parseConversationImport(json);
+    expect(result.source).toBe('rag-chat');
+    expect(result.conversations[0].title).toBe('Contract <review>');
+    expect(result.conversations[0].messages[1].sources).toHaveLength(1);
+  });
+});
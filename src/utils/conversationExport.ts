@@ -0,0 +1,249 @@
+import { Marked } from 'marked';
+import { Chat, Message, Source, chatAPI } from '../services/api';
+import { CITATION_REGEX, describeSourceLocation } from '../components/Citation';
+
+// Conversation export. Inline citations such as [2] become footnotes pointing at
+// the source they cite, so answers pasted into a report keep their references.
+
+export type ExportFormat = 'markdown' | 'pdf' | 'html' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Identifies our own export files; the importer checks for it
+export const EXPORT_FILE_FORMAT = 'rag-chat-export';
+export const EXPORT_FILE_VERSION = 1;
+
+export interface ConversationExportFile {
+  format: typeof EXPORT_FILE_FORMAT;
+  version: number;
+  exported_at: string;
+  session: Chat;
+  messages: Message[];  // complete, including sources and variants
+}
+
+const roleLabel = (message: Message) => message.role === 'user' ? 'You' : 'Assistant';
+
+const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Footnote ids are unique across the whole conversation: "<message>-<citation>"
+const footnoteId = (messageIndex: number, citation: number) => `${messageIndex + 1}-${citation}`;
+
+const describeSource = (source: Source) => {
+  const score = source.similarity_score ? ` (${(source.similarity_score * 100).toFixed(1)}% match)` : '';
+  return `${source.metadata?.filename || 'Unknown'}, ${describeSourceLocation(source)}${score}`;
+};
+
+const sourceExcerpt = (source: Source) => {
+  const text = (source.text || '').replace(/\s+/g, ' ').trim();
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+// Citation numbers that have a matching source, in order of first appearance
+const citedSources = (message: Message): number[] => {
+  const sources = message.sources || [];
+  const numbers: number[] = [];
+  for (const match of message.content.matchAll(CITATION_REGEX)) {
+    const n = Number(match[1]);
+    if (sources[n - 1] && !numbers.includes(n)) numbers.push(n);
+  }
+  return numbers;
+};
+
+// ── Markdown ────────────────────────────────────────────────────────────────
+
+export const toMarkdown = (session: Chat, messages: Message[]): string => {
+  const lines = [`# ${session.title || 'Conversation'}`, '', `_Exported ${formatTimestamp(new Date().toISOString())}_`, ''];
+
+  messages.forEach((message, index) => {
+    const sources = message.sources || [];
+    // A number without a source was made up by the model; it stays plain text
+    const content = message.content.replace(CITATION_REGEX, (marker, n) =>
+      sources[Number(n) - 1] ? `[^${footnoteId(index, Number(n))}]` : marker
+    );
+    lines.push(`## ${roleLabel(message)}`, '', `<sub>${formatTimestamp(message.timestamp)}</sub>`, '', content, '');
+    if (message.stopped) lines.push('_Generation stopped_', '');
+
+    const cited = citedSources(message);
+    cited.forEach(n => {
+      const source = sources[n - 1];
+      lines.push(`[^${footnoteId(index, n)}]: ${describeSource(source)}: "${sourceExcerpt(source)}"`);
+    });
+    if (cited.length > 0) lines.push('');
+  });
+
+  return lines.join('\n');
+};
+
+// ── HTML (also the source for PDF) ──────────────────────────────────────────
+
+// Link and image targets an export may keep; anything else (javascript:, data:,
+// vbscript:…) could run when the file is opened or printed
+const isSafeExportUrl = (href: string): boolean => /^(https?:|mailto:|#)/i.test(href.trim());
+
+// Renders one message's Markdown with its citations as footnote links. Raw HTML
+// is escaped and links or images with other targets are written as plain text,
+// so an exported file can't run anything when opened.
+const renderMessageHtml = (message: Message, index: number): string => {
+  const sources = message.sources || [];
+  const marked = new Marked({ gfm: true });
+  marked.use({
+    renderer: {
+      html: ({ text }) => escapeHtml(text),
+      link(token) {
+        return isSafeExportUrl(token.href) ? false : this.parser.parseInline(token.tokens);
+      },
+      image: ({ href, text }) => isSafeExportUrl(href) ? false : escapeHtml(text),
+    },
+    extensions: [{
+      name: 'citation',
+      level: 'inline',
+      start: (src: string) => src.match(/\[\d+\]/)?.index,
+      tokenizer: (src: string) => {
+        const match = /^\[(\d+)\]/.exec(src);
+        if (!match || !sources[Number(match[1]) - 1]) return undefined;
+        return { type: 'citation', raw: match[0], number: Number(match[1]) };
+      },
+      renderer: (token) => {
+        const id = footnoteId(index, token.number);
+        return `<sup class="citation"><a href="#fn-${id}" id="ref-${id}">[${token.number}]</a></sup>`;
+      },
+    }],
+  });
+
+  const body = marked.parse(message.content, { async: false });
+  const notes = citedSources(message).map(n => {
+    const source = sources[n - 1];
+    const id = footnoteId(index, n);
+    return `<li id="fn-${id}" value="${n}"><strong>${escapeHtml(describeSource(source))}</strong>`
+      + `<br><q>${escapeHtml(sourceExcerpt(source))}</q> <a href="#ref-${id}" aria-label="Back to text">↩</a></li>`;
+  }).join('');
+
+  return `<article class="message ${message.role}">
+  <header><span class="role">${roleLabel(message)}</span><time>${escapeHtml(formatTimestamp(message.timestamp))}</time></header>
+  <div class="content">${body}</div>
+  ${message.stopped ? '<p class="stopped">Generation stopped</p>' : ''}
+  ${notes ? `<ol class="footnotes">${notes}</ol>` : ''}
+</article>`;
+};
+
+const EXPORT_STYLES = `
+  body { font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1e293b; max-width: 780px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  .exported { color: #64748b; font-size: 0.85rem; margin-bottom: 2rem; }
+  .message { border-top: 1px solid #e2e8f0; padding: 1rem 0; break-inside: avoid-page; }
+  .message header { display: flex; justify-content: space-between; font-size: 0.8rem; color: #64748b; margin-bottom: 0.5rem; }
+  .message .role { font-weight: 600; text-transform: uppercase; letter-spacing: 0.04em; }
+  .message.user .role { color: #2563eb; }
+  .message.assistant .role { color: #7c3aed; }
+  .content pre { background: #f1f5f9; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  .content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #cbd5e1; padding: 0.25rem 0.5rem; }
+  .citation a { color: #2563eb; text-decoration: none; font-size: 0.75em; }
+  .stopped { color: #b45309; font-size: 0.85rem; font-style: italic; }
+  .footnotes { font-size: 0.8rem; color: #475569; border-top: 1px dashed #cbd5e1; margin-top: 0.75rem; padding-top: 0.5rem; }
+  .footnotes li { margin-bottom: 0.35rem; }
+  .footnotes a { color: #64748b; text-decoration: none; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    a { color: inherit; }
+  }
+`;
+
+export const toHtml = (session: Chat, messages: Message[]): string => {
+  const title = escapeHtml(session.title || 'Conversation');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="exported">Exported ${escapeHtml(formatTimestamp(new Date().toISOString()))}</p>
+${messages.map(renderMessageHtml).join('\n')}
+</body>
+</html>`;
+};
+
+// ── JSON ────────────────────────────────────────────────────────────────────
+
+export const toJson = (session: Chat, messages: Message[]): string => {
+  const file: ConversationExportFile = {
+    format: EXPORT_FILE_FORMAT,
+    version: EXPORT_FILE_VERSION,
+    exported_at: new Date().toISOString(),
+    session,
+    messages,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// ── delivery ────────────────────────────────────────────────────────────────
+
+const exportFilename = (session: Chat, extension: string) => {
+  const slug = (session.title || 'conversation')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'conversation';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints the HTML export from a hidden frame; the browser's dialog saves it as PDF
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
+
+// Loads the whole session (every page of messages) and hands it to the user in `format`
+export const exportConversation = async (sessionId: string, format: ExportFormat, signal?: AbortSignal) => {
+  const { session, messages } = await chatAPI.getFullSession(sessionId, signal);
+  switch (format) {
+    case 'markdown':
+      downloadFile(exportFilename(session, 'md'), toMarkdown(session, messages), 'text/markdown;charset=utf-8');
+      break;
+    case 'html':
+      downloadFile(exportFilename(session, 'html'), toHtml(session, messages), 'text/html;charset=utf-8');
+      break;
+    case 'pdf':
+      printHtml(toHtml(session, messages));
+      break;
+    case 'json':
+      downloadFile(exportFilename(session, 'json'), toJson(session, messages), 'application/json');
+      break;
+  }
+};
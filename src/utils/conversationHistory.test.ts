@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../services/api';
+import { HistoryWindowConfig, buildHistory } from './conversationHistory';
+
+const message = (role: Message['role'], content: string, id = content): Message => ({
+  id,
+  role,
+  content,
+  timestamp: '2025-01-01T00:00:00.000Z',
+});
+
+const config = (overrides: Partial<HistoryWindowConfig> = {}): HistoryWindowConfig => ({
+  maxTurns: 6,
+  maxChars: 6000,
+  condenseQuery: true,
+  ...overrides,
+});
+
+describe('buildHistory', () => {
+  it('keeps role and content only, oldest first', () => {
+    const history = buildHistory([message('user', 'Q1'), message('assistant', 'A1')], config());
+    expect(history).toEqual([
+      { role: 'user', content: 'Q1' },
+      { role: 'assistant', content: 'A1' },
+    ]);
+  });
+
+  it('limits the window to the newest turns', () => {
+    const messages = ['Q1', 'A1', 'Q2', 'A2', 'Q3', 'A3'].map((content, i) => message(i % 2 ? 'assistant' : 'user', content));
+    expect(buildHistory(messages, config({ maxTurns: 2 })).map(t => t.content)).toEqual(['Q2', 'A2', 'Q3', 'A3']);
+  });
+
+  it('drops whole messages once the character budget is used up', () => {
+    const messages = [message('user', 'a'.repeat(50)), message('assistant', 'b'.repeat(30)), message('user', 'c'.repeat(30))];
+    expect(buildHistory(messages, config({ maxChars: 70 })).map(t => t.content)).toEqual(['b'.repeat(30), 'c'.repeat(30)]);
+  });
+
+  it('stops at the first message that does not fit, even if older ones would', () => {
+    const messages = [message('user', 'short'), message('assistant', 'x'.repeat(100)), message('user', 'new')];
+    expect(buildHistory(messages, config({ maxChars: 50 })).map(t => t.content)).toEqual(['new']);
+  });
+
+  it('skips empty and whitespace-only messages', () => {
+    const messages = [message('user', 'Q1'), message('assistant', '   '), message('assistant', '')];
+    expect(buildHistory(messages, config())).toEqual([{ role: 'user', content: 'Q1' }]);
+  });
+
+  it('returns nothing when history is turned off', () => {
+    expect(buildHistory([message('user', 'Q1')], config({ maxTurns: 0 }))).toEqual([]);
+  });
+});
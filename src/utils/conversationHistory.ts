@@ -0,0 +1,38 @@
+import { HistoryTurn, Message } from '../services/api';
+
+export interface HistoryWindowConfig {
+  maxTurns: number;       // user+assistant pairs to include, counting back from the newest
+  maxChars: number;       // total character budget across all included messages
+  condenseQuery: boolean; // ask the backend to rewrite follow-ups into standalone questions
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Defaults can be tuned per deployment through NEXT_PUBLIC_* env vars.
+export const HISTORY_WINDOW: HistoryWindowConfig = {
+  maxTurns: readNumber(process.env.NEXT_PUBLIC_HISTORY_MAX_TURNS, 6),
+  maxChars: readNumber(process.env.NEXT_PUBLIC_HISTORY_MAX_CHARS, 6000),
+  condenseQuery: process.env.NEXT_PUBLIC_HISTORY_CONDENSE_QUERY !== 'false',
+};
+
+// Picks the most recent messages that fit the window, oldest first. Messages are
+// dropped whole (never cut mid-text) once the character budget is used up.
+export const buildHistory = (messages: Message[], config: HistoryWindowConfig = HISTORY_WINDOW): HistoryTurn[] => {
+  if (config.maxTurns <= 0) return [];
+  const candidates = messages
+    .filter(m => m && m.content && m.content.trim())
+    .slice(-config.maxTurns * 2);
+
+  const history: HistoryTurn[] = [];
+  let used = 0;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const { role, content } = candidates[i];
+    if (used + content.length > config.maxChars) break;
+    used += content.length;
+    history.unshift({ role, content });
+  }
+  return history;
+};
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FILE_FORMAT, EXPORT_FILE_VERSION } from './conversationExport';
+import { parseConversationImport } from './conversationImport';
+
+const chatGptNode = (parent: string | null, role: string, text: string | null, createTime = 1700000000) => ({
+  parent,
+  message: text === null ? null : {
+    author: { role },
+    content: { content_type: 'text', parts: [text] },
+    create_time: createTime,
+  },
+});
+
+describe('parseConversationImport', () => {
+  it('rejects files that are not JSON', () => {
+    expect(() => parseConversationImport('not json')).toThrow('not valid JSON');
+  });
+
+  it('rejects files without any conversation', () => {
+    expect(() => parseConversationImport('[]')).toThrow('No conversations');
+  });
+
+  it('reads our own export with sources and stopped flags', () => {
+    const file = {
+      format: EXPORT_FILE_FORMAT,
+      version: EXPORT_FILE_VERSION,
+      session: { title: 'Quarterly report', created_at: '2025-01-01T00:00:00.000Z' },
+      messages: [
+        { role: 'user', content: 'Revenue?', timestamp: '2025-01-01T00:00:00.000Z' },
+        {
+          role: 'assistant',
+          content: 'Up 4% [1]',
+          timestamp: '2025-01-01T00:00:05.000Z',
+          stopped: true,
+          sources: [{ chunk_id: 'c1', text: 'Revenue grew 4%', similarity_score: 0.9, metadata: { filename: 'q3.pdf', chunk_index: 0 } }],
+        },
+      ],
+    };
+    const result = parseConversationImport(JSON.stringify(file));
+    expect(result.source).toBe('rag-chat');
+    expect(result.skipped).toEqual([]);
+    expect(result.conversations).toHaveLength(1);
+    const [conversation] = result.conversations;
+    expect(conversation.title).toBe('Quarterly report');
+    expect(conversation.messages[1]).toMatchObject({ role: 'assistant', stopped: true });
+    expect(conversation.messages[1].sources?.[0].metadata.filename).toBe('q3.pdf');
+  });
+
+  it('keeps versions, model and rating from our own export', () => {
+    const rating = { rating: 'down', reasons: ['wrong', 'made_up'], comment: 'Off by one' };
+    const file = {
+      format: EXPORT_FILE_FORMAT,
+      version: EXPORT_FILE_VERSION,
+      session: { title: 'Versions' },
+      messages: [
+        { role: 'user', content: 'Q', timestamp: '2025-01-01T00:00:00.000Z' },
+        {
+          role: 'assistant',
+          content: 'Answer v1',
+          timestamp: '2025-01-01T00:00:05.000Z',
+          model_used: 'gpt-4o',
+          feedback: rating,
+          variants: [
+            { content: 'Answer v1', timestamp: '2025-01-01T00:00:05.000Z', model_used: 'gpt-4o', feedback: rating },
+            { content: 'Answer v2', timestamp: '2025-01-01T00:01:00.000Z', model_used: 'gpt-4o-mini' },
+          ],
+          variantIndex: 0,
+        },
+      ],
+    };
+    const result = parseConversationImport(JSON.stringify(file));
+    expect(result.skipped).toEqual([]);
+    const answer = result.conversations[0].messages[1];
+    const imported = { rating: 'down', reasons: ['wrong'], comment: 'Off by one' };
+    expect(answer).toMatchObject({ model_used: 'gpt-4o', feedback: imported, variantIndex: 0 });
+    expect(answer.variants?.map(v => v.model_used)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+    expect(answer.variants?.[0].feedback).toEqual(imported);
+  });
+
+  it('reports the replies of earlier edits, which are not imported', () => {
+    const file = {
+      format: EXPORT_FILE_FORMAT,
+      version: EXPORT_FILE_VERSION,
+      session: { title: 'Edited' },
+      messages: [{
+        role: 'user',
+        content: 'Edited question',
+        variants: [
+          { content: 'First question', timestamp: '2025-01-01T00:00:00.000Z', replies: [{ id: 'a', role: 'assistant', content: 'Old' }] },
+          { content: 'Edited question', timestamp: '2025-01-01T00:01:00.000Z' },
+          { content: '' },
+        ],
+        variantIndex: 1,
+      }],
+    };
+    const result = parseConversationImport(JSON.stringify(file));
+    const [message] = result.conversations[0].messages;
+    expect(message.variants?.map(v => v.content)).toEqual(['First question', 'Edited question']);
+    expect(message.variants?.[0]).not.toHaveProperty('replies');
+    expect(message.variantIndex).toBe(1);
+    expect(result.skipped.map(s => s.reason)).toEqual([
+      'Message 1: 1 invalid version dropped',
+      'Message 1: replies to 1 earlier version not imported',
+    ]);
+  });
+
+  it('reports skipped messages and malformed sources without failing the file', () => {
+    const file = {
+      title: 'Mixed',
+      messages: [
+        { role: 'user', content: 'Hello' },
+        { role: 'system', content: 'Be nice' },
+        { role: 'assistant', content: '   ' },
+        'oops',
+        { role: 'assistant', content: 'Hi', sources: [{ text: 'no metadata' }] },
+      ],
+    };
+    const result = parseConversationImport(JSON.stringify(file));
+    expect(result.source).toBe('generic');
+    expect(result.conversations[0].messages.map(m => m.content)).toEqual(['Hello', 'Hi']);
+    expect(result.skipped.map(issue => issue.reason)).toEqual([
+      'Message 2 has unsupported role "system"',
+      'Message 3 has no text content',
+      'Message 4 is not an object',
+      'Message 5: 1 malformed source dropped',
+    ]);
+    expect(result.skipped.every(issue => issue.conversation === 'Mixed')).toBe(true);
+  });
+
+  it('skips conversations with no usable messages', () => {
+    const result = parseConversationImport(JSON.stringify([
+      { title: 'Empty', messages: [] },
+      { title: 'No list' },
+      { title: 'Good', messages: [{ role: 'human', content: 'Hi' }] },
+    ]));
+    expect(result.conversations.map(c => c.title)).toEqual(['Good']);
+    expect(result.conversations[0].messages[0].role).toBe('user');
+    expect(result.skipped).toEqual([
+      { conversation: 'Empty', reason: 'No valid messages' },
+      { conversation: 'No list', reason: 'No messages list' },
+    ]);
+  });
+
+  describe('ChatGPT exports', () => {
+    it('follows the thread from current_node back to the root, ignoring other branches', () => {
+      const conversation = {
+        title: 'Trip planning',
+        create_time: 1700000000,
+        current_node: 'a2',
+        mapping: {
+          root: chatGptNode(null, 'system', null),
+          sys: chatGptNode('root', 'system', ''),
+          q1: chatGptNode('sys', 'user', 'Where should I go?'),
+          a1: chatGptNode('q1', 'assistant', 'An answer that was regenerated'),
+          a2: chatGptNode('q1', 'assistant', 'Lisbon', 1700000060),
+        },
+      };
+      const result = parseConversationImport(JSON.stringify([conversation]));
+      expect(result.source).toBe('chatgpt');
+      expect(result.skipped).toEqual([]);
+      const [imported] = result.conversations;
+      expect(imported.messages.map(m => [m.role, m.content])).toEqual([
+        ['user', 'Where should I go?'],
+        ['assistant', 'Lisbon'],
+      ]);
+      expect(imported.messages[1].timestamp).toBe(new Date(1700000060 * 1000).toISOString());
+      expect(imported.created_at).toBe(new Date(1700000000 * 1000).toISOString());
+    });
+
+    it('starts from a leaf when there is no current_node', () => {
+      const conversation = {
+        title: 'No pointer',
+        mapping: {
+          q1: chatGptNode(null, 'user', 'Question'),
+          a1: chatGptNode('q1', 'assistant', 'Answer'),
+        },
+      };
+      const [imported] = parseConversationImport(JSON.stringify(conversation)).conversations;
+      expect(imported.messages.map(m => m.content)).toEqual(['Question', 'Answer']);
+    });
+
+    it('counts tool and non-text messages in the skipped report', () => {
+      const conversation = {
+        title: 'With tools',
+        current_node: 'a1',
+        mapping: {
+          q1: chatGptNode(null, 'user', 'Search this'),
+          t1: chatGptNode('q1', 'tool', 'search results'),
+          img: { parent: 't1', message: { author: { role: 'assistant' }, content: { content_type: 'image_asset_pointer', parts: [{}] } } },
+          a1: chatGptNode('img', 'assistant', 'Found it'),
+        },
+      };
+      const result = parseConversationImport(JSON.stringify(conversation));
+      expect(result.conversations[0].messages.map(m => m.content)).toEqual(['Search this', 'Found it']);
+      expect(result.skipped).toEqual([{ conversation: 'With tools', reason: '2 tool, system or non-text messages skipped' }]);
+    });
+
+    it('does not loop forever on a cyclic mapping', () => {
+      const conversation = {
+        title: 'Cycle',
+        current_node: 'a',
+        mapping: {
+          a: chatGptNode('b', 'assistant', 'A'),
+          b: chatGptNode('a', 'user', 'B'),
+        },
+      };
+      const [imported] = parseConversationImport(JSON.stringify(conversation)).conversations;
+      expect(imported.messages.map(m => m.content)).toEqual(['B', 'A']);
+    });
+
+    it('skips a conversation without user or assistant messages', () => {
+      const conversation = { title: 'Only system', mapping: { s: chatGptNode(null, 'system', 'Rules') } };
+      const result = parseConversationImport(JSON.stringify([conversation]));
+      expect(result.conversations).toEqual([]);
+      expect(result.skipped.map(issue => issue.reason)).toContain('No user or assistant messages');
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { MessageFeedback, MessageVariant, Source } from '../services/api';
+import { EXPORT_FILE_FORMAT } from './conversationExport';
+import { FEEDBACK_REASONS } from './feedbackReasons';
+
+// Reads conversation files for import: our own JSON export, ChatGPT's
+// conversations.json (or a single conversation from it), and plain
+// `{ title, messages: [{ role, content }] }` files. Anything that can't be
+// imported is reported rather than failing the whole file.
+
+export const MAX_IMPORT_FILE_BYTES = 20 * 1024 * 1024;
+
+export interface ImportedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  sources?: Source[];
+  stopped?: boolean;
+  // From our own export; edited user messages' earlier branches are not imported
+  variants?: MessageVariant[];
+  variantIndex?: number;
+  model_used?: string;
+  feedback?: MessageFeedback;
+}
+
+export interface ImportedConversation {
+  title: string;
+  created_at?: string;
+  messages: ImportedMessage[];
+}
+
+// Something left out of the import, and why
+export interface ImportIssue {
+  conversation?: string;  // title, when the problem is inside a conversation
+  reason: string;
+}
+
+export interface ImportParseResult {
+  source: 'rag-chat' | 'chatgpt' | 'generic';
+  conversations: ImportedConversation[];
+  skipped: ImportIssue[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ISO strings and epoch seconds (ChatGPT) or milliseconds; anything else is dropped
+const toTimestamp = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return new Date(value).toISOString();
+  return undefined;
+};
+
+const normalizeRole = (value: unknown): ImportedMessage['role'] | null => {
+  if (value === 'user' || value === 'human') return 'user';
+  if (value === 'assistant' || value === 'ai' || value === 'bot') return 'assistant';
+  return null;
+};
+
+// Keeps sources that have the fields the source cards and citations rely on
+const readSources = (value: unknown): { sources: Source[]; dropped: number } => {
+  if (!Array.isArray(value)) return { sources: [], dropped: 0 };
+  const sources = value.filter((source): source is Source =>
+    isObject(source)
+    && typeof source.text === 'string'
+    && isObject(source.metadata)
+    && typeof source.metadata.filename === 'string'
+  ).map(source => ({
+    chunk_id: String(source.chunk_id ?? ''),
+    text: source.text,
+    similarity_score: typeof source.similarity_score === 'number' ? source.similarity_score : 0,
+    metadata: source.metadata,
+  }));
+  return { sources, dropped: value.length - sources.length };
+};
+
+const readFeedback = (value: unknown): MessageFeedback | undefined => {
+  if (!isObject(value) || (value.rating !== 'up' && value.rating !== 'down')) return undefined;
+  const reasons = Array.isArray(value.reasons)
+    ? FEEDBACK_REASONS.map(r => r.reason).filter(reason => (value.reasons as unknown[]).includes(reason))
+    : [];
+  return {
+    rating: value.rating,
+    reasons: value.rating === 'down' ? reasons : [],
+    comment: typeof value.comment === 'string' ? value.comment : '',
+  };
+};
+
+// Versions of a regenerated or edited message. Variants without text are dropped,
+// and so are the replies stored with an edit, since their messages can't be rebuilt.
+const readVariants = (
+  item: JsonObject,
+  fallbackTime: string,
+  report: (reason: string) => void,
+): Pick<ImportedMessage, 'variants' | 'variantIndex'> => {
+  if (!Array.isArray(item.variants) || item.variants.length === 0) return {};
+  let droppedSources = 0;
+  let droppedBranches = 0;
+  const variants: MessageVariant[] = [];
+  item.variants.forEach(variant => {
+    if (!isObject(variant) || typeof variant.content !== 'string' || !variant.content.trim()) return;
+    const { sources, dropped } = readSources(variant.sources);
+    droppedSources += dropped;
+    if (Array.isArray(variant.replies) && variant.replies.length > 0) droppedBranches++;
+    const feedback = readFeedback(variant.feedback);
+    variants.push({
+      content: variant.content,
+      timestamp: toTimestamp(variant.timestamp) || fallbackTime,
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(variant.stopped === true ? { stopped: true } : {}),
+      ...(typeof variant.model_used === 'string' && variant.model_used ? { model_used: variant.model_used } : {}),
+      ...(feedback ? { feedback } : {}),
+    });
+  });
+
+  const invalid = item.variants.length - variants.length;
+  if (invalid > 0) report(`${invalid} invalid version${invalid === 1 ? '' : 's'} dropped`);
+  if (droppedSources > 0) report(`${droppedSources} malformed source${droppedSources === 1 ? '' : 's'} in earlier versions dropped`);
+  if (droppedBranches > 0) {
+    report(`replies to ${droppedBranches} earlier version${droppedBranches === 1 ? '' : 's'} not imported`);
+  }
+  // A single version is just the message itself
+  if (variants.length < 2) return {};
+
+  // The stored index is trusted only while it still points at the shown text
+  const stored = typeof item.variantIndex === 'number' ? item.variantIndex : -1;
+  const index = variants[stored]?.content === item.content ? stored : variants.findIndex(v => v.content === item.content);
+  return { variants, variantIndex: index >= 0 ? index : variants.length - 1 };
+};
+
+// Validates role/content pairs shared by our format and the generic one
+const readMessages = (raw: unknown[], title: string, fallbackTime: string, skipped: ImportIssue[]): ImportedMessage[] => {
+  const messages: ImportedMessage[] = [];
+  raw.forEach((item, index) => {
+    const position = `Message ${index + 1}`;
+    if (!isObject(item)) {
+      skipped.push({ conversation: title, reason: `${position} is not an object` });
+      return;
+    }
+    const role = normalizeRole(item.role ?? item.type ?? item.message_type);
+    if (!role) {
+      skipped.push({ conversation: title, reason: `${position} has unsupported role "${String(item.role ?? item.type)}"` });
+      return;
+    }
+    if (typeof item.content !== 'string' || !item.content.trim()) {
+      skipped.push({ conversation: title, reason: `${position} has no text content` });
+      return;
+    }
+    const report = (reason: string) => skipped.push({ conversation: title, reason: `${position}: ${reason}` });
+    const { sources, dropped } = readSources(item.sources);
+    if (dropped > 0) report(`${dropped} malformed source${dropped === 1 ? '' : 's'} dropped`);
+    const timestamp = toTimestamp(item.timestamp ?? item.created_at) || fallbackTime;
+    const feedback = readFeedback(item.feedback);
+    messages.push({
+      role,
+      content: item.content,
+      timestamp,
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(item.stopped === true ? { stopped: true } : {}),
+      ...readVariants(item, timestamp, report),
+      ...(typeof item.model_used === 'string' && item.model_used ? { model_used: item.model_used } : {}),
+      ...(feedback ? { feedback } : {}),
+    });
+  });
+  return messages;
+};
+
+// ── ChatGPT ─────────────────────────────────────────────────────────────────
+
+interface ChatGptNode {
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+  } | null;
+}
+
+const isChatGptConversation = (value: unknown): value is JsonObject & { mapping: Record<string, ChatGptNode> } =>
+  isObject(value) && isObject(value.mapping);
+
+// ChatGPT stores a tree of edits and regenerations; the thread the user last saw runs
+// from `current_node` back to the root. System, tool and non-text messages are skipped.
+const readChatGptConversation = (raw: JsonObject & { mapping: Record<string, ChatGptNode> }, skipped: ImportIssue[]): ImportedConversation | null => {
+  const title = typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Imported chat';
+  const createdAt = toTimestamp(raw.create_time) || new Date().toISOString();
+
+  let nodeId = typeof raw.current_node === 'string' ? raw.current_node : undefined;
+  if (!nodeId) {
+    // No current node: start from any leaf instead
+    nodeId = Object.keys(raw.mapping).find(id => !Object.values(raw.mapping).some(node => node.parent === id));
+  }
+
+  const thread: ChatGptNode[] = [];
+  const seen = new Set<string>();
+  while (nodeId && raw.mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    thread.unshift(raw.mapping[nodeId]);
+    nodeId = raw.mapping[nodeId].parent ?? undefined;
+  }
+
+  let ignored = 0;
+  const messages: ImportedMessage[] = [];
+  for (const node of thread) {
+    const message = node.message;
+    if (!message) continue;
+    const role = normalizeRole(message.author?.role);
+    const parts = message.content?.content_type === 'text' ? message.content.parts : undefined;
+    const text = parts?.filter((part): part is string => typeof part === 'string').join('\n').trim();
+    if (!role || !text) {
+      // Empty system scaffolding is expected; only count messages with something in them
+      if (message.author?.role !== 'system' || parts?.some(part => part)) ignored++;
+      continue;
+    }
+    messages.push({ role, content: text, timestamp: toTimestamp(message.create_time) || createdAt });
+  }
+  if (ignored > 0) {
+    skipped.push({ conversation: title, reason: `${ignored} tool, system or non-text message${ignored === 1 ? '' : 's'} skipped` });
+  }
+  if (messages.length === 0) {
+    skipped.push({ conversation: title, reason: 'No user or assistant messages' });
+    return null;
+  }
+  return { title, created_at: createdAt, messages };
+};
+
+// ── entry point ─────────────────────────────────────────────────────────────
+
+// Throws with a user-facing message when the file as a whole can't be read
+export const parseConversationImport = (text: string): ImportParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const skipped: ImportIssue[] = [];
+  const items = Array.isArray(data) ? data : [data];
+
+  if (items.length > 0 && items.every(isChatGptConversation)) {
+    const conversations = items
+      .map(item => readChatGptConversation(item, skipped))
+      .filter((c): c is ImportedConversation => c !== null);
+    return { source: 'chatgpt', conversations, skipped };
+  }
+
+  const conversations: ImportedConversation[] = [];
+  let ours = false;
+  items.forEach((item, index) => {
+    if (!isObject(item)) {
+      skipped.push({ reason: `Entry ${index + 1} is not a conversation` });
+      return;
+    }
+    if (isChatGptConversation(item)) {
+      const conversation = readChatGptConversation(item, skipped);
+      if (conversation) conversations.push(conversation);
+      return;
+    }
+
+    // Our export keeps the title on `session`; generic files have it at the top
+    const session = item.format === EXPORT_FILE_FORMAT && isObject(item.session) ? item.session : item;
+    if (item.format === EXPORT_FILE_FORMAT) ours = true;
+    const title = typeof session.title === 'string' && session.title.trim() ? session.title.trim() : `Imported chat ${index + 1}`;
+
+    if (!Array.isArray(item.messages)) {
+      skipped.push({ conversation: title, reason: 'No messages list' });
+      return;
+    }
+    const createdAt = toTimestamp(session.created_at) || new Date().toISOString();
+    const messages = readMessages(item.messages, title, createdAt, skipped);
+    if (messages.length === 0) {
+      skipped.push({ conversation: title, reason: 'No valid messages' });
+      return;
+    }
+    conversations.push({ title, created_at: createdAt, messages });
+  });
+
+  if (conversations.length === 0 && skipped.length === 0) {
+    throw new Error('No conversations found in the file.');
+  }
+  return { source: ours ? 'rag-chat' : 'generic', conversations, skipped };
+};
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DOCUMENT_TYPES, WEB_PAGE_TYPE, detectDocumentType, getDocumentTypeInfo } from './documentTypes';
+
+// ACCEPTED_DOCUMENT_TYPES is read from the environment when the module loads
+const loadWithAcceptedTypes = async (value: string) => {
+  vi.stubEnv('NEXT_PUBLIC_ACCEPTED_DOCUMENT_TYPES', value);
+  vi.resetModules();
+  return import('./documentTypes');
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('detectDocumentType', () => {
+  it('goes by extension, case-insensitively', () => {
+    expect(detectDocumentType('Report.PDF')).toBe('pdf');
+    expect(detectDocumentType('notes.markdown')).toBe('md');
+    expect(detectDocumentType('page.htm')).toBe('html');
+  });
+
+  it('falls back to the MIME type', () => {
+    expect(detectDocumentType('upload', 'text/csv')).toBe('csv');
+  });
+
+  it('returns undefined for unknown files', () => {
+    expect(detectDocumentType('archive.zip', 'application/zip')).toBeUndefined();
+    expect(detectDocumentType('archive.zip')).toBeUndefined();
+  });
+});
+
+describe('getDocumentTypeInfo', () => {
+  it('returns the entry for known types, with or without a leading dot', () => {
+    expect(getDocumentTypeInfo('docx')).toBe(DOCUMENT_TYPES.docx);
+    expect(getDocumentTypeInfo('.PDF')).toBe(DOCUMENT_TYPES.pdf);
+  });
+
+  it('has display info for web pages', () => {
+    expect(getDocumentTypeInfo(WEB_PAGE_TYPE).label).toBe('WEB');
+  });
+
+  it('makes up a badge for unknown or missing types', () => {
+    expect(getDocumentTypeInfo('epub')).toMatchObject({ label: 'EPUB', extensions: [] });
+    expect(getDocumentTypeInfo(undefined).label).toBe('FILE');
+  });
+
+  it('does not treat inherited object keys as types', () => {
+    for (const key of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      const info = getDocumentTypeInfo(key);
+      expect(typeof info.label).toBe('string');
+      expect(info.extensions).toEqual([]);
+    }
+  });
+});
+
+describe('ACCEPTED_DOCUMENT_TYPES', () => {
+  it('accepts every type by default', async () => {
+    const { ACCEPTED_DOCUMENT_TYPES } = await loadWithAcceptedTypes('');
+    expect(ACCEPTED_DOCUMENT_TYPES).toEqual(Object.keys(DOCUMENT_TYPES));
+  });
+
+  it('can be narrowed per deployment', async () => {
+    const { ACCEPTED_DOCUMENT_TYPES, ACCEPT_ATTRIBUTE, ACCEPTED_TYPES_LABEL } = await loadWithAcceptedTypes(' PDF, md ,bogus');
+    expect(ACCEPTED_DOCUMENT_TYPES).toEqual(['pdf', 'md']);
+    expect(ACCEPT_ATTRIBUTE).toBe('.pdf,.md,.markdown');
+    expect(ACCEPTED_TYPES_LABEL).toBe('PDF and MD');
+  });
+
+  it('ignores inherited object keys in the setting', async () => {
+    const { ACCEPTED_DOCUMENT_TYPES, ACCEPT_ATTRIBUTE } = await loadWithAcceptedTypes('toString,constructor,csv');
+    expect(ACCEPTED_DOCUMENT_TYPES).toEqual(['csv']);
+    expect(ACCEPT_ATTRIBUTE).toBe('.csv');
+  });
+});
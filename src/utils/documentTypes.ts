@@ -0,0 +1,116 @@
+export type DocumentType = 'pdf' | 'docx' | 'pptx' | 'md' | 'html' | 'txt' | 'csv';
+
+export interface DocumentTypeInfo {
+  label: string;         // short badge text
+  extensions: string[];  // lowercase, with the dot
+  mimeTypes: string[];
+  color: string;         // Tailwind gradient stops for the type icon
+}
+
+export const DOCUMENT_TYPES: Record<DocumentType, DocumentTypeInfo> = {
+  pdf: {
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    color: 'from-red-500 to-rose-600',
+  },
+  docx: {
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    color: 'from-blue-500 to-indigo-600',
+  },
+  pptx: {
+    label: 'PPTX',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    color: 'from-orange-500 to-amber-600',
+  },
+  md: {
+    label: 'MD',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    color: 'from-slate-500 to-slate-600',
+  },
+  html: {
+    label: 'HTML',
+    extensions: ['.html', '.htm'],
+    mimeTypes: ['text/html'],
+    color: 'from-purple-500 to-fuchsia-600',
+  },
+  txt: {
+    label: 'TXT',
+    extensions: ['.txt'],
+    mimeTypes: ['text/plain'],
+    color: 'from-gray-500 to-gray-600',
+  },
+  csv: {
+    label: 'CSV',
+    extensions: ['.csv'],
+    mimeTypes: ['text/csv'],
+    color: 'from-green-500 to-emerald-600',
+  },
+};
+
+const isDocumentType = (value: string): value is DocumentType => Object.hasOwn(DOCUMENT_TYPES, value);
+
+// Formats the upload UI accepts. Deployments can narrow the list with a comma-separated
+// NEXT_PUBLIC_ACCEPTED_DOCUMENT_TYPES, e.g. "pdf,docx,md".
+export const ACCEPTED_DOCUMENT_TYPES: DocumentType[] = (() => {
+  const configured = (process.env.NEXT_PUBLIC_ACCEPTED_DOCUMENT_TYPES || '')
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(isDocumentType);
+  return configured.length > 0 ? configured : (Object.keys(DOCUMENT_TYPES) as DocumentType[]);
+})();
+
+// Value for an <input type="file" accept> attribute
+export const ACCEPT_ATTRIBUTE = ACCEPTED_DOCUMENT_TYPES
+  .flatMap(type => DOCUMENT_TYPES[type].extensions)
+  .join(',');
+
+// Human-readable list for help text, e.g. "PDF, DOCX and MD"
+export const ACCEPTED_TYPES_LABEL = (() => {
+  const labels = ACCEPTED_DOCUMENT_TYPES.map(type => DOCUMENT_TYPES[type].label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+})();
+
+// Type from the file extension, falling back to the MIME type (browsers often report
+// an empty or generic type for Markdown and Office files)
+export const detectDocumentType = (filename: string, mimeType?: string): DocumentType | undefined => {
+  const name = filename.toLowerCase();
+  const byExtension = (Object.keys(DOCUMENT_TYPES) as DocumentType[])
+    .find(type => DOCUMENT_TYPES[type].extensions.some(ext => name.endsWith(ext)));
+  if (byExtension) return byExtension;
+  if (!mimeType) return undefined;
+  return (Object.keys(DOCUMENT_TYPES) as DocumentType[])
+    .find(type => DOCUMENT_TYPES[type].mimeTypes.includes(mimeType));
+};
+
+export const isAcceptedFile = (file: File): boolean => {
+  const type = detectDocumentType(file.name, file.type);
+  return !!type && ACCEPTED_DOCUMENT_TYPES.includes(type);
+};
+
+// Pages ingested from a URL; not an upload format, so it isn't in DOCUMENT_TYPES
+export const WEB_PAGE_TYPE = 'web';
+
+const WEB_PAGE_INFO: DocumentTypeInfo = {
+  label: 'WEB',
+  extensions: [],
+  mimeTypes: [],
+  color: 'from-cyan-500 to-sky-600',
+};
+
+// Display info for a document's `file_type`, tolerating unknown values from the backend
+export const getDocumentTypeInfo = (fileType: string | undefined): DocumentTypeInfo => {
+  const type = fileType?.toLowerCase().replace(/^\./, '');
+  if (type === WEB_PAGE_TYPE) return WEB_PAGE_INFO;
+  if (type && isDocumentType(type)) return DOCUMENT_TYPES[type];
+  return {
+    label: type ? type.toUpperCase().slice(0, 4) : 'FILE',
+    extensions: [],
+    mimeTypes: [],
+    color: 'from-slate-500 to-slate-600',
+  };
+};
@@ -0,0 +1,14 @@
+import { FeedbackReason } from '../services/api';
+
+// Reasons offered when rating an answer down, in the order they are shown
+export const FEEDBACK_REASONS: { reason: FeedbackReason; label: string }[] = [
+  { reason: 'wrong', label: 'Wrong' },
+  { reason: 'incomplete', label: 'Incomplete' },
+  { reason: 'bad_citation', label: 'Bad citation' },
+  { reason: 'irrelevant_sources', label: 'Irrelevant sources' },
+];
+
+export const getFeedbackReasonLabel = (reason: string) =>
+  FEEDBACK_REASONS.find(r => r.reason === reason)?.label ?? reason;
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
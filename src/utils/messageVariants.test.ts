@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../services/api';
+import { addVariant, getVariantIndex, getVariants, selectVariant } from './messageVariants';
+
+const T0 = '2025-01-01T00:00:00.000Z';
+const T1 = '2025-01-01T00:01:00.000Z';
+
+const question: Message = { id: 'q', role: 'user', content: 'Original question', timestamp: T0 };
+const reply = (content: string): Message => ({ id: content, role: 'assistant', content, timestamp: T0 });
+
+describe('getVariants', () => {
+  it('treats a message without variants as its only version', () => {
+    expect(getVariants(question)).toEqual([{ content: 'Original question', timestamp: T0 }]);
+    expect(getVariantIndex(question)).toBe(0);
+  });
+
+  it('clamps an out-of-range variant index', () => {
+    const edited = addVariant(question, { content: 'Edited', timestamp: T1 });
+    expect(getVariantIndex({ ...edited, variantIndex: 7 })).toBe(1);
+    expect(getVariantIndex({ ...edited, variantIndex: -1 })).toBe(0);
+  });
+});
+
+describe('addVariant', () => {
+  it('shows the new version and keeps the old one', () => {
+    const edited = addVariant(question, { content: 'Edited', timestamp: T1 });
+    expect(edited.content).toBe('Edited');
+    expect(edited.variantIndex).toBe(1);
+    expect(edited.variants?.map(v => v.content)).toEqual(['Original question', 'Edited']);
+  });
+
+  it('stores the current replies with the version being replaced', () => {
+    const replies = [reply('First answer')];
+    const edited = addVariant(question, { content: 'Edited', timestamp: T1 }, replies);
+    expect(edited.variants?.[0].replies).toEqual(replies);
+    expect(edited.variants?.[1].replies).toBeUndefined();
+  });
+
+  it('carries sources, stopped and model onto the shown message', () => {
+    const answer = reply('Old answer');
+    const regenerated = addVariant(answer, { content: 'New answer', timestamp: T1, stopped: true, model_used: 'gpt-4o' });
+    expect(regenerated).toMatchObject({ content: 'New answer', stopped: true, model_used: 'gpt-4o' });
+  });
+});
+
+describe('selectVariant', () => {
+  it('brings back the branch that belonged to the selected version', () => {
+    const oldBranch = [reply('First answer')];
+    const edited = addVariant(question, { content: 'Edited', timestamp: T1 }, oldBranch);
+    const newBranch = [reply('Second answer')];
+
+    const back = selectVariant(edited, 0, newBranch);
+    expect(back.message.content).toBe('Original question');
+    expect(back.replies).toEqual(oldBranch);
+
+    // The branch that was showing is kept with its version, so switching again restores it
+    const forward = selectVariant(back.message, 1, back.replies);
+    expect(forward.message.content).toBe('Edited');
+    expect(forward.replies).toEqual(newBranch);
+  });
+
+  it('keeps the variants of replies in a stored branch', () => {
+    const regenerated = addVariant(reply('Answer v1'), { content: 'Answer v2', timestamp: T1 });
+    const edited = addVariant(question, { content: 'Edited', timestamp: T1 }, [regenerated]);
+    const { replies } = selectVariant(edited, 0, []);
+    expect(replies[0].variants?.map(v => v.content)).toEqual(['Answer v1', 'Answer v2']);
+    expect(replies[0].variantIndex).toBe(1);
+  });
+
+  it('clamps the requested index and returns no replies for assistant messages', () => {
+    const regenerated = addVariant(reply('Answer v1'), { content: 'Answer v2', timestamp: T1 });
+    const { message, replies } = selectVariant(regenerated, 10);
+    expect(message.content).toBe('Answer v2');
+    expect(replies).toEqual([]);
+  });
+
+  it('keeps each rating with the version it was given for', () => {
+    const rated: Message = { ...reply('Answer v1'), feedback: { rating: 'down', reasons: ['wrong'], comment: '' } };
+    const regenerated = addVariant(rated, { content: 'Answer v2', timestamp: T1 });
+    expect(regenerated.feedback).toBeUndefined();
+
+    const back = selectVariant(regenerated, 0).message;
+    expect(back.feedback).toEqual(rated.feedback);
+    expect(selectVariant(back, 1).message.feedback).toBeUndefined();
+  });
+
+  it('stores a rating given after regenerating before switching away', () => {
+    const regenerated = addVariant(reply('Answer v1'), { content: 'Answer v2', timestamp: T1 });
+    const rated = { ...regenerated, feedback: { rating: 'up' as const, reasons: [], comment: 'Better' } };
+    const back = selectVariant(rated, 0).message;
+    expect(back.feedback).toBeUndefined();
+    expect(selectVariant(back, 1).message.feedback).toEqual(rated.feedback);
+  });
+
+  it('clears the stopped flag when switching to a complete version', () => {
+    const stopped = addVariant(reply('Answer v1'), { content: 'Partial', timestamp: T1, stopped: true });
+    expect(selectVariant(stopped, 0).message.stopped).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { Message, MessageVariant } from '../services/api';
+
+// Versions of a message; a message that was never regenerated or edited has one.
+export const getVariants = (message: Message): MessageVariant[] =>
+  message.variants && message.variants.length > 0
+    ? message.variants
+    : [{
+        content: message.content,
+        timestamp: message.timestamp,
+        sources: message.sources,
+        stopped: message.stopped,
+        model_used: message.model_used,
+        feedback: message.feedback,
+      }];
+
+export const getVariantIndex = (message: Message): number => {
+  const count = getVariants(message).length;
+  return Math.min(Math.max(message.variantIndex ?? count - 1, 0), count - 1);
+};
+
+// Copy the shown variant's fields onto the message itself.
+const showVariant = (message: Message, variants: MessageVariant[], index: number): Message => {
+  const variant = variants[index];
+  return {
+    ...message,
+    content: variant.content,
+    sources: variant.sources,
+    stopped: variant.stopped || undefined,
+    model_used: variant.model_used,
+    feedback: variant.feedback,
+    variants,
+    variantIndex: index,
+  };
+};
+
+// The versions with the shown one brought up to date: its rating may have changed
+// since it was stored, and `currentReplies` are what followed it.
+const storeShownVariant = (message: Message, currentReplies?: Message[]): MessageVariant[] =>
+  getVariants(message).map((v, i) =>
+    i === getVariantIndex(message)
+      ? { ...v, feedback: message.feedback, ...(currentReplies ? { replies: currentReplies } : {}) }
+      : v
+  );
+
+// Add a new version and show it. `currentReplies` is stored with the version being
+// replaced so an edited user message can bring its old branch back later.
+export const addVariant = (message: Message, variant: MessageVariant, currentReplies?: Message[]): Message => {
+  const variants = storeShownVariant(message, currentReplies);
+  return showVariant(message, [...variants, variant], variants.length);
+};
+
+// Switch to another version. Returns the updated message and, for user messages,
+// the replies that belong to the selected version.
+export const selectVariant = (
+  message: Message,
+  index: number,
+  currentReplies?: Message[],
+): { message: Message; replies: Message[] } => {
+  const variants = storeShownVariant(message, currentReplies);
+  const next = Math.min(Math.max(index, 0), variants.length - 1);
+  return {
+    message: showVariant(message, variants, next),
+    replies: variants[next].replies ?? [],
+  };
+};
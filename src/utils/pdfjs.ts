@@ -0,0 +1,6 @@
+import { pdfjs } from 'react-pdf';
+
+// One place to point pdf.js at its worker for every component that renders PDFs
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+export { pdfjs };
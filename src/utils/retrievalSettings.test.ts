@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { RetrievalSettings } from '../services/api';
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  TEMPERATURE_RANGE,
+  TOP_K_RANGE,
+  isDefaultRetrievalSettings,
+  normalizeRetrievalSettings,
+  toRetrievalOptions,
+} from './retrievalSettings';
+
+describe('normalizeRetrievalSettings', () => {
+  it('uses the defaults for missing settings', () => {
+    expect(normalizeRetrievalSettings(undefined)).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+    expect(normalizeRetrievalSettings(null)).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+    expect(normalizeRetrievalSettings({ top_k: 8 })).toEqual({ ...DEFAULT_RETRIEVAL_SETTINGS, top_k: 8 });
+  });
+
+  it('keeps valid settings as they are', () => {
+    const settings: RetrievalSettings = {
+      top_k: 12,
+      min_score: 0.35,
+      search_mode: 'hybrid',
+      rerank: true,
+      model: 'gpt-4o',
+      temperature: 0.2,
+    };
+    expect(normalizeRetrievalSettings(settings)).toEqual(settings);
+  });
+
+  it('pulls out-of-range numbers back into range', () => {
+    const normalized = normalizeRetrievalSettings({ top_k: 500, min_score: -1, temperature: 9 });
+    expect(normalized.top_k).toBe(TOP_K_RANGE.max);
+    expect(normalized.min_score).toBe(0);
+    expect(normalized.temperature).toBe(TEMPERATURE_RANGE.max);
+    expect(normalizeRetrievalSettings({ top_k: 0 }).top_k).toBe(TOP_K_RANGE.min);
+    expect(normalizeRetrievalSettings({ top_k: 7.6 }).top_k).toBe(8);
+  });
+
+  it('replaces values of the wrong type with the defaults', () => {
+    const normalized = normalizeRetrievalSettings({
+      top_k: 'many',
+      min_score: NaN,
+      search_mode: 'fuzzy',
+      rerank: 'yes',
+      model: '',
+      temperature: null,
+    } as unknown as Partial<RetrievalSettings>);
+    expect(normalized).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+  });
+});
+
+describe('isDefaultRetrievalSettings', () => {
+  it('is true only when every field matches the defaults', () => {
+    expect(isDefaultRetrievalSettings({ ...DEFAULT_RETRIEVAL_SETTINGS })).toBe(true);
+    expect(isDefaultRetrievalSettings({ ...DEFAULT_RETRIEVAL_SETTINGS, rerank: true })).toBe(false);
+    expect(isDefaultRetrievalSettings({ ...DEFAULT_RETRIEVAL_SETTINGS, model: 'gpt-4o' })).toBe(false);
+  });
+});
+
+describe('toRetrievalOptions', () => {
+  it('leaves top_k out, since it is passed on its own', () => {
+    const options = toRetrievalOptions({ ...DEFAULT_RETRIEVAL_SETTINGS, top_k: 9, search_mode: 'keyword' });
+    expect(options).not.toHaveProperty('top_k');
+  });
+
+  it('sends only the fields that differ from the defaults', () => {
+    expect(toRetrievalOptions(DEFAULT_RETRIEVAL_SETTINGS)).toEqual({});
+    expect(toRetrievalOptions({ ...DEFAULT_RETRIEVAL_SETTINGS, search_mode: 'keyword', temperature: 0.2 }))
+      .toEqual({ search_mode: 'keyword', temperature: 0.2 });
+  });
+});
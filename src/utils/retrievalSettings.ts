@@ -0,0 +1,63 @@
+import { RagRequestOptions, RetrievalSettings, SearchMode } from '../services/api';
+
+// What a session uses until its settings are changed; matches what the backend
+// did before the settings existed
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  top_k: 5,
+  min_score: 0,
+  search_mode: 'semantic',
+  rerank: false,
+  model: null,
+  temperature: 0.7,
+};
+
+export const TOP_K_RANGE = { min: 1, max: 20 };
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+export const SEARCH_MODES: { mode: SearchMode; label: string; hint: string }[] = [
+  { mode: 'semantic', label: 'Semantic', hint: 'Matches meaning using embeddings' },
+  { mode: 'keyword', label: 'Keyword', hint: 'Matches exact terms' },
+  { mode: 'hybrid', label: 'Hybrid', hint: 'Combines both' },
+];
+
+// Models offered besides the server default, e.g. NEXT_PUBLIC_LLM_MODELS=gpt-4o-mini,gpt-4o
+export const LLM_MODELS: string[] = (process.env.NEXT_PUBLIC_LLM_MODELS || '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Anything but a finite number (null, strings from a hand-edited record) gets the fallback
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Fills in missing fields and pulls out-of-range values back in, so settings saved
+// by an older client (or none at all) are always usable
+export const normalizeRetrievalSettings = (settings?: Partial<RetrievalSettings> | null): RetrievalSettings => {
+  const defaults = DEFAULT_RETRIEVAL_SETTINGS;
+  if (!settings) return defaults;
+  return {
+    top_k: Math.round(clamp(settings.top_k, TOP_K_RANGE.min, TOP_K_RANGE.max, defaults.top_k)),
+    min_score: clamp(settings.min_score, 0, 1, defaults.min_score),
+    search_mode: SEARCH_MODES.find(m => m.mode === settings.search_mode)?.mode ?? defaults.search_mode,
+    rerank: typeof settings.rerank === 'boolean' ? settings.rerank : defaults.rerank,
+    model: settings.model || null,
+    temperature: clamp(settings.temperature, TEMPERATURE_RANGE.min, TEMPERATURE_RANGE.max, defaults.temperature),
+  };
+};
+
+export const isDefaultRetrievalSettings = (settings: RetrievalSettings): boolean =>
+  (Object.keys(DEFAULT_RETRIEVAL_SETTINGS) as (keyof RetrievalSettings)[])
+    .every(key => settings[key] === DEFAULT_RETRIEVAL_SETTINGS[key]);
+
+// The part of the settings that travels in RagRequestOptions; top_k is its own argument.
+// Fields left at their defaults are omitted so the server applies its own.
+export const toRetrievalOptions = (settings: RetrievalSettings): RagRequestOptions['retrieval'] => {
+  const defaults = DEFAULT_RETRIEVAL_SETTINGS;
+  return {
+    ...(settings.min_score !== defaults.min_score ? { min_score: settings.min_score } : {}),
+    ...(settings.search_mode !== defaults.search_mode ? { search_mode: settings.search_mode } : {}),
+    ...(settings.rerank !== defaults.rerank ? { rerank: settings.rerank } : {}),
+    ...(settings.model !== defaults.model ? { model: settings.model } : {}),
+    ...(settings.temperature !== defaults.temperature ? { temperature: settings.temperature } : {}),
+  };
+};
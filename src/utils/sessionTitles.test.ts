@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TITLE_LENGTH, normalizeTitle, truncateTitle } from './sessionTitles';
+
+describe('truncateTitle', () => {
+  it('keeps short messages whole', () => {
+    expect(truncateTitle('  What is the notice period?  ')).toBe('What is the notice period?');
+  });
+
+  it('cuts long messages at a word boundary', () => {
+    const title = truncateTitle('How does the termination clause interact with the renewal terms in the master agreement?');
+    expect(title).toBe('How does the termination clause interact...');
+  });
+
+  it('cuts a first word that is too long to fit', () => {
+    const url = `https://example.com/${'a'.repeat(60)}`;
+    expect(truncateTitle(url)).toBe(`${url.slice(0, 40)}...`);
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('strips quotes, a "Title:" prefix and a trailing period', () => {
+    expect(normalizeTitle('Title: "Contract renewal terms."')).toBe('Contract renewal terms');
+    expect(normalizeTitle('“Quarterly revenue”')).toBe('Quarterly revenue');
+  });
+
+  it('collapses whitespace and newlines into one line', () => {
+    expect(normalizeTitle('  Budget\n\n  review   2025 ')).toBe('Budget review 2025');
+  });
+
+  it('returns an empty string for blank input', () => {
+    expect(normalizeTitle('   ""  ')).toBe('');
+  });
+
+  it('bounds the length', () => {
+    const title = normalizeTitle('word '.repeat(40));
+    expect(title.length).toBeLessThanOrEqual(MAX_TITLE_LENGTH);
+    expect(title.endsWith('...')).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+// Titles for chat sessions: a quick one cut from the first question, optionally
+// replaced by one the backend's LLM writes from the first question and answer.
+
+export const MAX_TITLE_LENGTH = 100;
+
+// Set NEXT_PUBLIC_LLM_TITLES=false to keep the truncated titles only
+export const LLM_TITLES_ENABLED = process.env.NEXT_PUBLIC_LLM_TITLES !== 'false';
+
+// First ~40 characters of the message, cut at a word boundary
+export const truncateTitle = (message: string): string => {
+  const clean = message.trim();
+  if (clean.length <= 50) return clean;
+  const words = clean.split(' ');
+  let title = '';
+  for (const word of words) {
+    if ((title + ' ' + word).length > 40) break;
+    title += (title ? ' ' : '') + word;
+  }
+  // A first word too long to fit (e.g. a pasted URL) is cut instead
+  if (!title) title = clean.slice(0, 40);
+  return (title.length < clean.length ? title + '...' : title) || 'New Chat';
+};
+
+// Tidies a title typed by the user or written by the model: single line, no
+// wrapping quotes or trailing period, bounded length. Empty means "keep the old one".
+export const normalizeTitle = (title: string): string => {
+  const clean = title
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(title:\s*)/i, '')
+    .replace(/^["'“”‘’`]+|["'“”‘’`]+$/g, '')
+    .replace(/\.$/, '')
+    .trim();
+  return clean.length > MAX_TITLE_LENGTH ? clean.slice(0, MAX_TITLE_LENGTH - 3).trimEnd() + '...' : clean;
+};
@@ -0,0 +1,18 @@
+// Palette for chat tags. Tags store the key; the classes are spelled out in full
+// so Tailwind picks them up.
+export const TAG_COLORS = {
+  slate: { dot: 'bg-slate-400', chip: 'bg-slate-500/20 text-slate-300 border-slate-500/40' },
+  red: { dot: 'bg-red-400', chip: 'bg-red-500/20 text-red-300 border-red-500/40' },
+  amber: { dot: 'bg-amber-400', chip: 'bg-amber-500/20 text-amber-300 border-amber-500/40' },
+  green: { dot: 'bg-green-400', chip: 'bg-green-500/20 text-green-300 border-green-500/40' },
+  blue: { dot: 'bg-blue-400', chip: 'bg-blue-500/20 text-blue-300 border-blue-500/40' },
+  purple: { dot: 'bg-purple-400', chip: 'bg-purple-500/20 text-purple-300 border-purple-500/40' },
+  pink: { dot: 'bg-pink-400', chip: 'bg-pink-500/20 text-pink-300 border-pink-500/40' },
+} as const;
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+// Unknown colors (e.g. from a newer client) fall back to slate
+export const getTagColor = (color: string) => TAG_COLORS[color as TagColor] ?? TAG_COLORS.slate;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseUrls } from './urlList';
+
+describe('parseUrls', () => {
+  it('splits on any whitespace and normalizes URLs', () => {
+    expect(parseUrls(' https://docs.example.com/api\n\nhttp://Example.com\thttps://a.example.com/x y ')).toEqual({
+      urls: ['https://docs.example.com/api', 'http://example.com/', 'https://a.example.com/x'],
+      invalid: ['y'],
+    });
+  });
+
+  it('keeps each URL once', () => {
+    expect(parseUrls('https://example.com https://example.com/ HTTPS://EXAMPLE.COM').urls).toEqual(['https://example.com/']);
+  });
+
+  it('reports URLs with other protocols as invalid', () => {
+    expect(parseUrls('ftp://example.com javascript:alert(1) file:///etc/passwd')).toEqual({
+      urls: [],
+      invalid: ['ftp://example.com', 'javascript:alert(1)', 'file:///etc/passwd'],
+    });
+  });
+
+  it('returns nothing for blank input', () => {
+    expect(parseUrls('  \n ')).toEqual({ urls: [], invalid: [] });
+  });
+});
@@ -0,0 +1,15 @@
+// Splits input on whitespace, keeps valid http(s) URLs once each, and reports the rest
+export const parseUrls = (input: string): { urls: string[]; invalid: string[] } => {
+  const urls = new Set<string>();
+  const invalid: string[] = [];
+  for (const candidate of input.split(/\s+/).filter(Boolean)) {
+    try {
+      const url = new URL(candidate);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Unsupported protocol');
+      urls.add(url.toString());
+    } catch {
+      invalid.push(candidate);
+    }
+  }
+  return { urls: [...urls], invalid };
+};